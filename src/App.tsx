@@ -1,10 +1,23 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import ExamSeatingAllocator from './components/ExamSeatingAllocator';
+import StudentLookup from './components/StudentLookup';
+import { parseLookupHash } from './utils/lookup';
 
 function App() {
+  // Links from the section QR notices open the student lookup instead of the allocator
+  const [lookup, setLookup] = useState(() => parseLookupHash(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setLookup(parseLookupHash(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <ExamSeatingAllocator />
+      {lookup
+        ? <StudentLookup key={window.location.hash} initialQuery={lookup} dataUrl={lookup.dataUrl} />
+        : <ExamSeatingAllocator />}
     </div>
   );
 }
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Allocation, RoomBlock } from '../types';
+import { computeMetrics, Utilisation } from '../utils/metrics';
+
+interface AnalyticsPanelProps {
+  allocation: Allocation[];
+  roomBlocks: RoomBlock[];
+  minChunk: number;
+}
+
+const percent = (u: Utilisation) => (u.capacity > 0 ? (u.used / u.capacity) * 100 : 0);
+
+const UtilisationTable: React.FC<{ title: string; rows: Utilisation[] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="font-medium text-gray-700 mb-2">{title}</h4>
+    <table className="w-full text-sm text-left border-collapse">
+      <thead>
+        <tr className="border-b text-gray-600">
+          <th className="py-1 pr-3"></th>
+          <th className="py-1 pr-3">Rooms used</th>
+          <th className="py-1 pr-3">Seated</th>
+          <th className="py-1 pr-3">Capacity</th>
+          <th className="py-1">Utilisation</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label} className="border-b border-gray-100">
+            <td className="py-1 pr-3 font-medium">{row.label}</td>
+            <td className="py-1 pr-3">{row.roomsUsed}/{row.rooms}</td>
+            <td className="py-1 pr-3">{row.used}</td>
+            <td className="py-1 pr-3">{row.capacity}</td>
+            <td className="py-1">{percent(row).toFixed(1)}%</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ allocation, roomBlocks, minChunk }) => {
+  const metrics = computeMetrics(allocation, roomBlocks, minChunk);
+  const tiles = [
+    { label: 'Split Sections', value: `${metrics.splitSections} of ${metrics.sectionsPlaced}` },
+    { label: 'Avg Pieces / Section', value: metrics.averagePieces.toFixed(2) },
+    { label: 'Max Pieces / Section', value: metrics.maxPieces },
+    { label: 'Smallest Fragment', value: metrics.smallestFragment ?? '–' },
+    { label: `Fragments below ${minChunk}`, value: metrics.fragmentsBelowMinChunk, warn: metrics.fragmentsBelowMinChunk > 0 },
+    { label: 'Unused Available Seats', value: `${metrics.unusedCapacity} of ${metrics.availableCapacity}` },
+  ];
+
+  return (
+    <details className="mb-6 border rounded-lg">
+      <summary className="cursor-pointer p-4 font-semibold text-gray-800">Allocation Analytics</summary>
+      <div className="p-4 pt-0">
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
+          {tiles.map(tile => (
+            <div key={tile.label} className="text-center p-3 bg-gray-50 rounded-lg">
+              <div className={`text-xl font-bold ${tile.warn ? 'text-red-600' : 'text-gray-800'}`}>{tile.value}</div>
+              <div className="text-sm text-gray-600">{tile.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Per-block utilisation chart: the bar spans every available seat in the block */}
+        <h4 className="font-medium text-gray-700 mb-2">Utilisation by block</h4>
+        <div className="space-y-2 mb-6">
+          {metrics.blocks.map(block => (
+            <div key={block.label} className="flex items-center gap-3 text-sm">
+              <div className="w-40 shrink-0 truncate" title={block.label}>{block.label}</div>
+              <div className="flex-1 bg-gray-200 rounded-full h-5 relative overflow-hidden">
+                <div className="absolute h-full bg-blue-500" style={{ width: `${Math.min(100, percent(block))}%` }}></div>
+              </div>
+              <div className="w-32 shrink-0 text-right text-gray-600">
+                {block.used}/{block.capacity} ({percent(block).toFixed(0)}%)
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <UtilisationTable title="Blocks" rows={metrics.blocks} />
+          <UtilisationTable title="Floors" rows={metrics.floors} />
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { RoomBlock } from '../types';
+import SeatGrid from './SeatGrid';
+
+interface AvailabilityPanelProps {
+  roomBlocks: RoomBlock[];
+  unavailableRooms: string[];
+  blockedSeats: Record<string, number[]>;
+  standbyRooms: string[];
+  onUnavailableChange: (roomNos: string[]) => void;
+  onBlockedSeatsChange: (blockedSeats: Record<string, number[]>) => void;
+  onStandbyChange: (roomNos: string[]) => void;
+}
+
+const AvailabilityPanel: React.FC<AvailabilityPanelProps> = ({
+  roomBlocks,
+  unavailableRooms,
+  blockedSeats,
+  standbyRooms,
+  onUnavailableChange,
+  onBlockedSeatsChange,
+  onStandbyChange,
+}) => {
+  const [expandedRoom, setExpandedRoom] = useState<string | null>(null);
+  const totalBlocked = Object.values(blockedSeats).reduce((sum, seats) => sum + seats.length, 0);
+
+  const setRoomsAvailable = (roomNos: string[], available: boolean) => {
+    const others = unavailableRooms.filter(no => !roomNos.includes(no));
+    onUnavailableChange(available ? others : [...others, ...roomNos]);
+  };
+
+  const toggleStandby = (roomNo: string) => {
+    onStandbyChange(standbyRooms.includes(roomNo) ? standbyRooms.filter(no => no !== roomNo) : [...standbyRooms, roomNo]);
+  };
+
+  const toggleSeat = (roomNo: string, seat: number) => {
+    const current = blockedSeats[roomNo] || [];
+    const updated = current.includes(seat) ? current.filter(s => s !== seat) : [...current, seat].sort((a, b) => a - b);
+    const next = { ...blockedSeats, [roomNo]: updated };
+    if (updated.length === 0) delete next[roomNo];
+    onBlockedSeatsChange(next);
+  };
+
+  return (
+    <details className="mb-6 border rounded-lg">
+      <summary className="cursor-pointer p-4 font-semibold text-gray-800">
+        Room Availability: {unavailableRooms.length} room(s) unavailable, {totalBlocked} seat(s) blocked, {standbyRooms.length} standby
+      </summary>
+      <div className="p-4 pt-0">
+        <p className="text-sm text-gray-600 mb-4">
+          Untick rooms that cannot be used for this run. Open a room's seats and click a seat to block or
+          reserve it (broken bench, invigilator desk). Allocation uses each room's remaining capacity.
+          Standby rooms are kept empty and only opened by the emergency overflow.
+        </p>
+        <div className="flex gap-3 mb-4 text-sm">
+          <button onClick={() => onUnavailableChange([])} className="text-blue-700 hover:underline">Make all rooms available</button>
+          <button onClick={() => onBlockedSeatsChange({})} className="text-blue-700 hover:underline">Clear all blocked seats</button>
+          <button onClick={() => onStandbyChange([])} className="text-blue-700 hover:underline">Clear standby rooms</button>
+        </div>
+
+        {roomBlocks.map((block, blockIdx) => {
+          const roomNos = block.rooms.map(r => r.no);
+          const allAvailable = roomNos.every(no => !unavailableRooms.includes(no));
+          return (
+            <div key={blockIdx} className="mb-4">
+              <label className="flex items-center gap-2 font-medium text-gray-700 mb-2">
+                <input
+                  type="checkbox"
+                  checked={allAvailable}
+                  onChange={e => setRoomsAvailable(roomNos, e.target.checked)}
+                />
+                {block.name}
+              </label>
+              <div className="flex flex-wrap gap-2 pl-6">
+                {block.rooms.map(room => {
+                  const available = !unavailableRooms.includes(room.no);
+                  const blocked = blockedSeats[room.no] || [];
+                  const standby = standbyRooms.includes(room.no);
+                  return (
+                    <div
+                      key={room.no}
+                      className={`flex items-center gap-2 px-2 py-1 text-sm border rounded-md ${!available ? 'bg-gray-200 text-gray-500 line-through' : standby ? 'bg-orange-50 border-orange-300' : 'bg-white'}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={available}
+                        onChange={e => setRoomsAvailable([room.no], e.target.checked)}
+                      />
+                      <span>{room.no}</span>
+                      <span className="text-gray-500">({room.capacity - blocked.length}/{room.capacity})</span>
+                      <button
+                        onClick={() => setExpandedRoom(expandedRoom === room.no ? null : room.no)}
+                        className="text-xs text-blue-700 hover:underline"
+                      >
+                        {expandedRoom === room.no ? 'Hide seats' : 'Seats'}
+                      </button>
+                      <button
+                        onClick={() => toggleStandby(room.no)}
+                        className={`text-xs hover:underline ${standby ? 'text-orange-700 font-semibold' : 'text-gray-600'}`}
+                        title="Keep this room empty unless the emergency overflow needs it"
+                      >
+                        {standby ? 'Standby' : 'Set standby'}
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              {block.rooms.filter(room => room.no === expandedRoom).map(room => (
+                <div key={room.no} className="pl-6 mt-2">
+                  <div className="text-sm text-gray-700">
+                    {room.no}: click seats to block or unblock ({(blockedSeats[room.no] || []).length} blocked)
+                  </div>
+                  <SeatGrid
+                    room={room}
+                    allocations={[]}
+                    getColor={() => ''}
+                    blockedSeats={blockedSeats[room.no] || []}
+                    onSeatClick={seat => toggleSeat(room.no, seat)}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default AvailabilityPanel;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { Allocation } from '../types';
+import { diffAllocations, ChangeKind } from '../utils/reallocation';
+
+interface ChangeReportProps {
+  baseline: Allocation[];
+  publishedAt: string;
+  allocation: Allocation[];
+  onClearBaseline: () => void;
+}
+
+const KIND_LABELS: Record<ChangeKind, { label: string; className: string }> = {
+  added: { label: 'New section', className: 'bg-green-100 text-green-800' },
+  removed: { label: 'Removed', className: 'bg-gray-200 text-gray-700' },
+  grew: { label: 'Grew', className: 'bg-blue-100 text-blue-800' },
+  shrank: { label: 'Shrank', className: 'bg-yellow-100 text-yellow-800' },
+  moved: { label: 'Moved rooms', className: 'bg-purple-100 text-purple-800' },
+  noSpace: { label: 'NO SPACE', className: 'bg-red-100 text-red-800' },
+};
+
+const ChangeReport: React.FC<ChangeReportProps> = ({ baseline, publishedAt, allocation, onClearBaseline }) => {
+  const changes = diffAllocations(baseline, allocation);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <GitCompare className="text-purple-600" />
+          Changes Since Published Plan
+        </h2>
+        <button onClick={onClearBaseline} className="text-sm text-gray-600 hover:underline">Clear published plan</button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Compared with the plan published at {new Date(publishedAt).toLocaleString()}.
+        Use "Reallocate from Published Plan" after changing head counts to keep everyone else in their seats.
+      </p>
+      {changes.length === 0 ? (
+        <div className="text-sm text-green-700">No section has changed.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left border-collapse">
+            <thead>
+              <tr className="border-b text-gray-600">
+                <th className="py-2 pr-4">Section</th>
+                <th className="py-2 pr-4">Change</th>
+                <th className="py-2 pr-4">Seated before</th>
+                <th className="py-2 pr-4">Seated now</th>
+                <th className="py-2 pr-4">Rooms before</th>
+                <th className="py-2">Rooms now</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.map(change => (
+                <tr key={`${change.branch}-${change.section}`} className="border-b border-gray-100">
+                  <td className="py-2 pr-4 font-medium whitespace-nowrap">{change.branch}-{change.section}</td>
+                  <td className="py-2 pr-4">
+                    <div className="flex flex-wrap gap-1">
+                      {change.kinds.map(kind => (
+                        <span key={kind} className={`px-2 py-0.5 text-xs rounded-full ${KIND_LABELS[kind].className}`}>
+                          {KIND_LABELS[kind].label}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">{change.before}</td>
+                  <td className="py-2 pr-4">
+                    {change.after}
+                    {change.unplaced > 0 && <span className="text-red-600"> (+{change.unplaced} unplaced)</span>}
+                  </td>
+                  <td className="py-2 pr-4">{change.roomsBefore.join(', ') || '–'}</td>
+                  <td className="py-2">{change.roomsAfter.join(', ') || '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeReport;
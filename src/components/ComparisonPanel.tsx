@@ -0,0 +1,103 @@
+import React from 'react';
+import { BarChart3, CheckCircle } from 'lucide-react';
+import { AlgorithmComparison } from '../types';
+
+interface ComparisonPanelProps {
+  comparisons: AlgorithmComparison[];
+  labels: Record<number, string>;
+  minChunk: number;
+  adoptedAlgorithm: number | null;
+  onAdopt: (comparison: AlgorithmComparison) => void;
+  onClose: () => void;
+}
+
+type Metric = {
+  label: string;
+  value: (c: AlgorithmComparison) => number;
+  format?: (c: AlgorithmComparison) => string;
+  higherIsBetter?: boolean;
+};
+
+const METRICS: Metric[] = [
+  { label: 'Rooms Used', value: c => c.stats.roomsUsed },
+  { label: 'Blocks Used', value: c => c.stats.blocksUsed },
+  { label: 'Wasted Seats', value: c => c.stats.wastedSeats },
+  { label: 'Efficiency', value: c => Number(c.stats.efficiency), format: c => `${c.stats.efficiency}%`, higherIsBetter: true },
+  { label: 'Split Sections', value: c => c.splitSections },
+  { label: 'Locality Penalty', value: c => c.stats.localityPenalty },
+  { label: 'Unallocated', value: c => c.unallocatedStudents },
+];
+
+const ComparisonPanel: React.FC<ComparisonPanelProps> = ({ comparisons, labels, minChunk, adoptedAlgorithm, onAdopt, onClose }) => {
+  // Best value per metric among the plans, used to highlight the winning cells
+  const best = METRICS.map(metric => {
+    const values = comparisons.map(metric.value);
+    return metric.higherIsBetter ? Math.max(...values) : Math.min(...values);
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-semibold text-gray-800 flex items-center gap-2">
+          <BarChart3 className="text-blue-600" />
+          Algorithm Comparison
+        </h2>
+        <button onClick={onClose} className="text-sm text-gray-600 hover:underline">Close</button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Every algorithm was run on the same sections and rooms with a minimum chunk of {minChunk}.
+        The best value in each column is highlighted. Adopt a plan to make it the active allocation.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left border-collapse">
+          <thead>
+            <tr className="border-b text-gray-600">
+              <th className="py-2 pr-4">Algorithm</th>
+              {METRICS.map(metric => <th key={metric.label} className="py-2 pr-4">{metric.label}</th>)}
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map(comparison => {
+              const adopted = comparison.algorithm === adoptedAlgorithm;
+              return (
+                <tr key={comparison.algorithm} className={`border-b border-gray-100 ${adopted ? 'bg-green-50' : ''}`}>
+                  <td className="py-2 pr-4 font-medium whitespace-nowrap">{labels[comparison.algorithm]}</td>
+                  {METRICS.map((metric, idx) => {
+                    const isBest = comparisons.length > 1 && metric.value(comparison) === best[idx];
+                    const isProblem = metric.label === 'Unallocated' && comparison.unallocatedStudents > 0;
+                    return (
+                      <td
+                        key={metric.label}
+                        className={`py-2 pr-4 ${isBest ? 'font-semibold text-green-700' : ''} ${isProblem ? 'text-red-600 font-semibold' : ''}`}
+                      >
+                        {metric.format ? metric.format(comparison) : metric.value(comparison)}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 text-right">
+                    {adopted ? (
+                      <span className="inline-flex items-center gap-1 text-green-700 text-sm">
+                        <CheckCircle size={16} />
+                        Active
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => onAdopt(comparison)}
+                        className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                      >
+                        Adopt plan
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonPanel;
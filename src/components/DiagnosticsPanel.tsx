@@ -0,0 +1,50 @@
+import React from 'react';
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+import { InvariantRule, InvariantViolation, INVARIANT_LABELS, INVARIANT_SEVERITY } from '../utils/invariants';
+
+interface DiagnosticsPanelProps {
+  violations: InvariantViolation[];
+}
+
+// Result of verifyAllocation on the plan as it stands, re-checked after every run and edit.
+// Broken rules show in red; warnings (pieces below the minimum chunk) only turn the panel amber.
+const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ violations }) => {
+  const rules = Object.keys(INVARIANT_LABELS) as InvariantRule[];
+  const failing = (rule: InvariantRule) => violations.filter(v => v.rule === rule);
+  const hasErrors = violations.some(v => v.severity === 'error');
+  const panelColor = hasErrors
+    ? 'bg-red-50 border-red-300'
+    : violations.length > 0 ? 'bg-yellow-50 border-yellow-300' : 'bg-green-50 border-green-300';
+  const ruleIcon = (rule: InvariantRule) => {
+    if (failing(rule).length === 0) return <CheckCircle size={14} />;
+    return INVARIANT_SEVERITY[rule] === 'error' ? <XCircle size={14} /> : <AlertTriangle size={14} />;
+  };
+  const ruleColor = (rule: InvariantRule) => {
+    if (failing(rule).length === 0) return 'text-green-700';
+    return INVARIANT_SEVERITY[rule] === 'error' ? 'text-red-700' : 'text-yellow-700';
+  };
+
+  return (
+    <div className={`mb-6 p-4 border rounded-lg ${panelColor}`}>
+      <div className="font-semibold text-gray-800 mb-2">Allocation Diagnostics</div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+        {rules.map(rule => (
+          <span key={rule} className={`flex items-center gap-1 ${ruleColor(rule)}`}>
+            {ruleIcon(rule)}
+            {INVARIANT_LABELS[rule]}
+            {failing(rule).length > 0 && ` (${failing(rule).length})`}
+          </span>
+        ))}
+      </div>
+      {violations.length > 0 && (
+        <ul className="mt-3 list-disc pl-6 text-sm space-y-1 max-h-48 overflow-y-auto">
+          {violations.map((v, idx) => (
+            <li key={idx} className={v.severity === 'error' ? 'text-red-800' : 'text-yellow-800'}>{v.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
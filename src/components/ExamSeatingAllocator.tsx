@@ -1,61 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Trash2, Calculator, AlertCircle, CheckCircle, Users, Building } from 'lucide-react';
-
-interface Section {
-  id: number;
-  branch: string;
-  section: string;
-  students: number;
-}
-
-interface Room {
-  no: string;
-  capacity: number;
-  rows: number[];
-}
-
-interface RoomBlock {
-  name: string;
-  rooms: Room[];
-}
-
-interface Allocation {
-  branch: string;
-  section: string;
-  roomNo: string;
-  students: number;
-  startSeat?: number;
-  endSeat?: number;
-  partial?: boolean;
-  emergency?: boolean;
-  error?: boolean;
-  blockName?: string;
-}
-
-interface Stats {
-  totalStudents: number;
-  allocatedStudents: number;
-  roomsUsed: number;
-  blocksUsed: number;
-  totalCapacity: number;
-  wastedSeats: number;
-  efficiency: string;
-}
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Trash2, Calculator, AlertCircle, CheckCircle, Users, Building, FileText, Printer, Download, BarChart3, Scissors, Merge, GripVertical, Pin, RefreshCw, Undo2, Redo2, History as HistoryIcon } from 'lucide-react';
+import { Section, RoomBlock, RoomIssue, Allocation, Stats, OptimiserReport, Student, AllocationSettings, ExamSession, SessionResult, Invigilator, AlgorithmComparison, SavedPlan, RoomRequirement, EmergencyReport, AllocationOutcome, PublishedPlan } from '../types';
+import SeatGrid from './SeatGrid';
+import RoomRollList from './RoomRollList';
+import PrintSheets from './PrintSheets';
+import QrNotices from './QrNotices';
+import RoomEditor from './RoomEditor';
+import TimetablePanel from './TimetablePanel';
+import InvigilatorPanel from './InvigilatorPanel';
+import AvailabilityPanel from './AvailabilityPanel';
+import ComparisonPanel from './ComparisonPanel';
+import PlansPanel from './PlansPanel';
+import ChangeReport from './ChangeReport';
+import AnalyticsPanel from './AnalyticsPanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import HistorySidebar from './HistorySidebar';
+import RunProgress from './RunProgress';
+import SectionImportPanel from './SectionImportPanel';
+import LookupPanel, { LookupSettings, defaultLookupSettings } from './LookupPanel';
+import { countSeatConflicts, formatSeatRange } from '../utils/seating';
+import { parseRosterCsv, validateRoster, assignStudentSeats } from '../utils/roster';
+import { exportAllocationCsv, exportStatsCsv, exportXlsx, downloadFile } from '../utils/export';
+import { parseRoomCsv, validateRoomBlocks, roomBlocksToCsv } from '../utils/rooms';
+import { computeStats } from '../utils/allocators';
+import { buildDutySlots } from '../utils/invigilation';
+import { applyAvailability } from '../utils/availability';
+import { AllocationJob, AllocationJobResult, AllocationProgress, AllocationWorkerMessage } from '../utils/allocationJobs';
+import { PLAN_SCHEMA_VERSION } from '../utils/plans';
+import { ALL_REQUIREMENTS, REQUIREMENT_LABELS, ROOM_FEATURES, applyStudentRequirements, describeRequirements, describeUnmetRequirements } from '../utils/requirements';
+import { UNPLACED_ROOM, buildRoomUsage, moveChunk, splitChunk, mergeChunks, checkAllocation } from '../utils/editing';
+import { countPapers, NO_PAPER } from '../utils/papers';
+import { verifyAllocation } from '../utils/invariants';
+import { History, EMPTY_HISTORY, addStep, canUndo, canRedo } from '../utils/history';
 
 const ALGO_OPTIONS = [
   { value: 1, label: '1. Simple Greedy' },
   { value: 2, label: '2. Greedy with Min Chunk' },
   { value: 3, label: '3. Greedy Lookahead' },
   { value: 4, label: '4. Best-Fit/First-Fit Decreasing' },
+  { value: 5, label: '5. Bounded-Search Optimiser' },
 ];
 
+// Algorithm name without its menu number, for history labels
+const algorithmName = (value: number) =>
+  (ALGO_OPTIONS.find(opt => opt.value === value)?.label || `Algorithm ${value}`).replace(/^\d+\.\s*/, '');
+
 const ALGO_EXPLANATIONS: Record<number, string> = {
   1: `Simple Greedy: Fills each room with as much of the current section as possible, then moves to the next room/section. Fast and simple, but can leave small numbers of students from a section in a room.`,
   2: `Greedy with Min Chunk: Like Simple Greedy, but never allocates fewer than a threshold (e.g., 10) students from a section to a room unless it's the only way. Reduces tiny fragments, but may leave some seats empty if no good fit is found.`,
   3: `Greedy Lookahead: When a room can't be filled by one section, looks for another section (or sections) that can be combined to fill the room as closely as possible, minimizing small fragments. Fewer awkward splits, more balanced rooms.`,
-  4: `Best-Fit/First-Fit Decreasing: Sorts sections and rooms by size, then tries to fit sections into rooms as efficiently as possible, possibly combining sections to fill rooms. Good overall efficiency, fewer splits than simple greedy.`
+  4: `Best-Fit/First-Fit Decreasing: Sorts sections and rooms by size, then tries to fit sections into rooms as efficiently as possible, possibly combining sections to fill rooms. Good overall efficiency, fewer splits than simple greedy.`,
+  5: `Bounded-Search Optimiser: Starts from the best plan of algorithms 1-4, then searches over whole and split placements of every section, pruning any branch that provably cannot beat the best plan found so far. Plans are scored by a weighted cost of rooms opened, sections split, fragments below the minimum chunk, and wasted seats. If the time limit runs out, the best plan found so far is used.`
 };
 
+const INTERLEAVE_EXPLANATION = `Interleaved Seating (anti-copying): Uses each room's row layout to seat students in a checkerboard pattern, with one section on the "light" seats and a different section on the "dark" seats. Nobody sits beside or directly behind a classmate. Rooms are filled about half-and-half by two sections, so more rooms may be opened; if rooms run out, remaining students take any empty seat and the resulting conflicts are counted per room.`;
+
 const ExamSeatingAllocator: React.FC = () => {
   const [sections, setSections] = useState<Section[]>([
     { id: 1, branch: 'BT', section: '1', students: 77 },
@@ -83,490 +82,449 @@ const ExamSeatingAllocator: React.FC = () => {
   const [stats, setStats] = useState<Stats>({} as Stats);
   const [algorithm, setAlgorithm] = useState<number>(3);
   const [minChunk, setMinChunk] = useState<number>(10);
+  const [interleaved, setInterleaved] = useState<boolean>(false);
+  const [usePriorityOrder, setUsePriorityOrder] = useState<boolean>(false);
+  const [keepSectionsTogether, setKeepSectionsTogether] = useState<boolean>(false);
+  const [maxPapersPerRoom, setMaxPapersPerRoom] = useState<number>(0);
+  const [maxSectionsPerRoom, setMaxSectionsPerRoom] = useState<number>(0);
+  const [emergencyMode, setEmergencyMode] = useState<boolean>(false);
+  const [emergencyExtraSeats, setEmergencyExtraSeats] = useState<number>(0);
+  const [emergencyRelaxMinChunk, setEmergencyRelaxMinChunk] = useState<boolean>(false);
+  const [emergencyReport, setEmergencyReport] = useState<EmergencyReport | null>(null);
+  const [optimiserTimeLimit, setOptimiserTimeLimit] = useState<number>(3);
+  const [optimiserReport, setOptimiserReport] = useState<OptimiserReport | null>(null);
   const [roomBlocks, setRoomBlocks] = useState<RoomBlock[]>([]);
+  const [roomParseIssues, setRoomParseIssues] = useState<RoomIssue[]>([]);
+  const [roster, setRoster] = useState<Student[]>([]);
+  const [rosterParseErrors, setRosterParseErrors] = useState<string[]>([]);
+  const [printView, setPrintView] = useState<'sheets' | 'qrNotices' | null>(null);
+  const [sessions, setSessions] = useState<ExamSession[]>([]);
+  const [sessionResults, setSessionResults] = useState<SessionResult[]>([]);
+  const [invigilators, setInvigilators] = useState<Invigilator[]>([]);
+  const [seatsPerInvigilator, setSeatsPerInvigilator] = useState<number>(30);
+  const [unavailableRooms, setUnavailableRooms] = useState<string[]>([]);
+  const [standbyRooms, setStandbyRooms] = useState<string[]>([]);
+  const [blockedSeats, setBlockedSeats] = useState<Record<string, number[]>>({});
+  const [comparisons, setComparisons] = useState<AlgorithmComparison[]>([]);
+  const [adoptedAlgorithm, setAdoptedAlgorithm] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [published, setPublished] = useState<PublishedPlan | null>(null);
+  const [lookupSettings, setLookupSettings] = useState<LookupSettings>(defaultLookupSettings);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false);
+  const [activeJob, setActiveJob] = useState<{ worker: Worker; label: string; progress: AllocationProgress } | null>(null);
 
   useEffect(() => {
-    // Load and parse the CSV file
+    // Load and parse the default room CSV file
     fetch('/room information.csv')
       .then(response => response.text())
       .then(csvData => {
-        // Split into lines and remove empty lines
-        const lines = csvData.split('\n').filter(line => line.trim());
-
-        // Get headers from first line
-        const headers = lines[0].split(',').map(h => h.trim());
-
-        // Process each line (skip header)
-        const blocks: { [key: string]: Room[] } = {};
-
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(',').map(v => v.trim());
-          const blockName = values[headers.indexOf('BLOCK')];
-          const roomNo = values[headers.indexOf('ROOM NO')];
-          const capacity = parseInt(values[headers.indexOf('Total Count')]);
-
-          // Parse row data
-          const rows: number[] = [];
-          for (let j = 1; j <= 8; j++) {
-            const rowValue = values[headers.indexOf(`ROW-${j}`)];
-            if (rowValue && rowValue.toLowerCase() !== 'x') {
-              rows.push(parseInt(rowValue));
-            }
-          }
-
-          if (!blocks[blockName]) {
-            blocks[blockName] = [];
-          }
-
-          blocks[blockName].push({
-            no: roomNo,
-            capacity,
-            rows
-          });
-        }
-
-        // Convert blocks object to array format
-        const roomBlocksArray = Object.entries(blocks).map(([name, rooms]) => ({
-          name: `${name} Block`,
-          rooms: rooms.sort((a, b) => a.no.localeCompare(b.no))
-        }));
-
-        setRoomBlocks(roomBlocksArray);
+        const { roomBlocks: parsed, issues } = parseRoomCsv(csvData);
+        setRoomBlocks(parsed);
+        setRoomParseIssues(issues.filter(i => i.line !== undefined));
       })
       .catch(error => {
-        console.error('Error loading room data:', error);
+        setRoomParseIssues([{ severity: 'error', message: `Could not load room data: ${error}` }]);
       });
   }, []);
 
+  const handleRoomUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const { roomBlocks: parsed, issues } = parseRoomCsv(text);
+        if (parsed.length === 0) {
+          setRoomParseIssues(issues);
+          return;
+        }
+        setRoomBlocks(parsed);
+        setRoomParseIssues(issues.filter(i => i.line !== undefined));
+        recordStep(`Uploaded rooms from ${file.name}`, { roomBlocks: parsed });
+      })
+      .catch(error => {
+        setRoomParseIssues([{ severity: 'error', message: `Could not read ${file.name}: ${error}` }]);
+      });
+    e.target.value = '';
+  };
+
+  const updateRoomBlocks = (updated: RoomBlock[]) => {
+    setRoomBlocks(updated);
+    setRoomParseIssues([]);
+    recordStep('Edited rooms', { roomBlocks: updated }, 'rooms');
+  };
+
+  const sectionLabel = (s: Section) => (s.branch || s.section ? `${s.branch}-${s.section}` : 'new section');
+
+  const updateSections = (updated: Section[], label: string, mergeKey?: string) => {
+    setSections(updated);
+    recordStep(label, { sections: updated }, mergeKey);
+  };
+
   const addSection = () => {
     const newId = Math.max(...sections.map(s => s.id), 0) + 1;
-    setSections([...sections, { id: newId, branch: '', section: '', students: 50 }]);
+    updateSections([...sections, { id: newId, branch: '', section: '', students: 50 }], 'Added a section');
   };
 
   const removeSection = (id: number) => {
-    setSections(sections.filter(s => s.id !== id));
+    const removed = sections.find(s => s.id === id);
+    updateSections(sections.filter(s => s.id !== id), `Removed ${removed ? sectionLabel(removed) : 'section'}`);
+  };
+
+  const toggleSectionRequirement = (id: number, requirement: RoomRequirement) => {
+    const target = sections.find(s => s.id === id);
+    updateSections(sections.map(s => {
+      if (s.id !== id) return s;
+      const current = s.requirements || [];
+      const requirements = current.includes(requirement) ? current.filter(r => r !== requirement) : [...current, requirement];
+      return { ...s, requirements: requirements.length > 0 ? requirements : undefined };
+    }), `Changed requirements of ${target ? sectionLabel(target) : 'section'}`);
   };
 
   const updateSection = (id: number, field: keyof Section, value: string | number) => {
-    setSections(sections.map(s =>
+    const updated = sections.map(s =>
       s.id === id ? { ...s, [field]: field === 'students' ? parseInt(value as string) || 0 : value } : s
-    ));
+    );
+    const edited = updated.find(s => s.id === id);
+    updateSections(updated, `Edited ${edited ? sectionLabel(edited) : 'section'} ${field}`, `section-${id}-${field}`);
   };
 
-  // --- ALGORITHMS ---
-  // 1. Simple Greedy
-  function allocateSimpleGreedy() {
-    const result: Allocation[] = [];
-    const roomUsage: Record<string, number> = {};
-    const allRooms: (Room & { blockName: string })[] = roomBlocks.flatMap(block =>
-      block.rooms.map(room => ({ ...room, blockName: block.name }))
-    ).sort((a, b) => b.capacity - a.capacity);
-    const sectionLeft: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
-    sectionLeft.sort((a, b) => b.students - a.students);
-    for (const section of sectionLeft) {
-      let remaining = section.students;
-      for (const room of allRooms) {
-        if (remaining === 0) break;
-        const used = roomUsage[room.no] || 0;
-        const available = room.capacity - used;
-        if (available <= 0) continue;
-        let toAllocate = Math.min(available, remaining);
-        // Prevent starting a room with a small chunk unless it's the only way
-        if (used === 0 && toAllocate < minChunk && remaining === toAllocate) {
-          // Only allow if no other room has any students (all rooms empty)
-          const anyRoomHasStudents = allRooms.some(r => (roomUsage[r.no] || 0) > 0);
-          if (!anyRoomHasStudents) {
-            // Allow placing the last small chunk in an empty room
-          } else {
-            continue;
-          }
-        } else if (toAllocate < minChunk && remaining > minChunk) {
-          continue;
-        }
-        result.push({
-          branch: section.branch,
-          section: section.section,
-          roomNo: room.no,
-          students: toAllocate,
-          startSeat: used + 1,
-          endSeat: used + toAllocate,
-          partial: toAllocate !== section.students,
-          blockName: room.blockName
-        });
-        roomUsage[room.no] = used + toAllocate;
-        remaining -= toAllocate;
-      }
-      if (remaining > 0) {
-        result.push({
-          branch: section.branch,
-          section: section.section,
-          roomNo: "NO SPACE",
-          students: remaining,
-          error: true
-        });
-      }
-    }
-    return { result, roomUsage };
-  }
+  const handleRosterUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const { students, errors } = parseRosterCsv(text);
+        setRoster(students);
+        setRosterParseErrors(errors);
+      })
+      .catch(error => {
+        setRoster([]);
+        setRosterParseErrors([`Could not read ${file.name}: ${error}`]);
+      });
+    e.target.value = '';
+  };
 
-  // 2. Greedy with Min Chunk
-  function allocateGreedyMinChunk() {
-    const result: Allocation[] = [];
-    const roomUsage: Record<string, number> = {};
-    const allRooms: (Room & { blockName: string })[] = roomBlocks.flatMap(block =>
-      block.rooms.map(room => ({ ...room, blockName: block.name }))
-    ).sort((a, b) => b.capacity - a.capacity);
-    const sectionLeft: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
-    sectionLeft.sort((a, b) => b.students - a.students);
-    for (const section of sectionLeft) {
-      let remaining = section.students;
-      for (const room of allRooms) {
-        if (remaining === 0) break;
-        const used = roomUsage[room.no] || 0;
-        const available = room.capacity - used;
-        if (available <= 0) continue;
-        let toAllocate = Math.min(available, remaining);
-        // Prevent starting a room with a small chunk unless it's the only way
-        if (used === 0 && toAllocate < minChunk && remaining === toAllocate) {
-          const anyRoomHasStudents = allRooms.some(r => (roomUsage[r.no] || 0) > 0);
-          if (!anyRoomHasStudents) {
-            // Allow placing the last small chunk in an empty room
-          } else {
-            continue;
-          }
-        } else if (toAllocate < minChunk && remaining > minChunk) {
-          continue;
-        }
-        result.push({
-          branch: section.branch,
-          section: section.section,
-          roomNo: room.no,
-          students: toAllocate,
-          startSeat: used + 1,
-          endSeat: used + toAllocate,
-          partial: toAllocate !== section.students,
-          blockName: room.blockName
-        });
-        roomUsage[room.no] = used + toAllocate;
-        remaining -= toAllocate;
-      }
-      if (remaining > 0) {
-        result.push({
-          branch: section.branch,
-          section: section.section,
-          roomNo: "NO SPACE",
-          students: remaining,
-          error: true
-        });
-      }
-    }
-    return { result, roomUsage };
-  }
+  const clearRoster = () => {
+    setRoster([]);
+    setRosterParseErrors([]);
+  };
 
-  // 3. Greedy Lookahead (Coordinated Filling)
-  function allocateGreedyLookahead() {
-    const result: Allocation[] = [];
-    const roomUsage: Record<string, number> = {};
-    const sectionLeft: Section[] = sections
-      .filter(s => s.branch && s.section && s.students > 0)
-      .map(s => ({ ...s }));
-    const allRooms: (Room & { blockName: string })[] = roomBlocks.flatMap(block =>
-      block.rooms.map(room => ({ ...room, blockName: block.name }))
-    ).sort((a, b) => b.capacity - a.capacity);
-    sectionLeft.sort((a, b) => b.students - a.students);
-    for (const room of allRooms) {
-      let seatsLeft = room.capacity;
-      let allocationsForRoom: Allocation[] = [];
-      // Try to find a section that fits perfectly
-      let perfectIdx = sectionLeft.findIndex(s => s.students === seatsLeft);
-      if (perfectIdx !== -1) {
-        const s = sectionLeft[perfectIdx];
-        allocationsForRoom.push({
-          branch: s.branch,
-          section: s.section,
-          roomNo: room.no,
-          students: seatsLeft,
-          startSeat: 1,
-          endSeat: seatsLeft,
-          blockName: room.blockName
-        });
-        sectionLeft.splice(perfectIdx, 1);
-        seatsLeft = 0;
-      }
-      // If not perfect, try to fill with largest possible section(s)
-      while (seatsLeft > 0 && sectionLeft.length > 0) {
-        let bestIdx = -1;
-        let bestChunk = 0;
-        for (let i = 0; i < sectionLeft.length; ++i) {
-          const s = sectionLeft[i];
-          if (s.students <= seatsLeft && s.students > bestChunk) {
-            bestChunk = s.students;
-            bestIdx = i;
-          }
-        }
-        if (bestIdx !== -1) {
-          const s = sectionLeft[bestIdx];
-          // Prevent starting a room with a small chunk unless it's the only way
-          if ((room.capacity - seatsLeft === 0) && s.students < minChunk && s.students === sectionLeft[bestIdx].students) {
-            const anyRoomHasStudents = allRooms.some(r => (roomUsage[r.no] || 0) > 0);
-            if (!anyRoomHasStudents) {
-              // Allow placing the last small chunk in an empty room
-            } else {
-              break;
-            }
-          } else if (s.students < minChunk && s.students !== sectionLeft[bestIdx].students) {
-            break;
-          }
-          allocationsForRoom.push({
-            branch: s.branch,
-            section: s.section,
-            roomNo: room.no,
-            students: s.students,
-            startSeat: room.capacity - seatsLeft + 1,
-            endSeat: room.capacity - seatsLeft + s.students,
-            blockName: room.blockName
-          });
-          seatsLeft -= s.students;
-          sectionLeft.splice(bestIdx, 1);
-          continue;
-        }
-        sectionLeft.sort((a, b) => b.students - a.students);
-        const s = sectionLeft[0];
-        if (s.students - seatsLeft > 0 && s.students - seatsLeft < minChunk && seatsLeft < minChunk) {
-          break;
-        }
-        const chunk = Math.min(seatsLeft, s.students);
-        if ((room.capacity - seatsLeft === 0) && chunk < minChunk && s.students === chunk) {
-          const anyRoomHasStudents = allRooms.some(r => (roomUsage[r.no] || 0) > 0);
-          if (!anyRoomHasStudents) {
-            // Allow placing the last small chunk in an empty room
-          } else {
-            break;
-          }
-        } else if (chunk < minChunk && s.students > minChunk) break;
-        allocationsForRoom.push({
-          branch: s.branch,
-          section: s.section,
-          roomNo: room.no,
-          students: chunk,
-          startSeat: room.capacity - seatsLeft + 1,
-          endSeat: room.capacity - seatsLeft + chunk,
-          partial: true,
-          blockName: room.blockName
-        });
-        s.students -= chunk;
-        seatsLeft -= chunk;
-        if (s.students === 0) sectionLeft.shift();
-      }
-      result.push(...allocationsForRoom);
-      if (allocationsForRoom.length > 0) {
-        roomUsage[room.no] = room.capacity - seatsLeft;
-      }
+  const allocationSettings: AllocationSettings = {
+    algorithm, minChunk, interleaved, usePriorityOrder, optimiserTimeLimit, keepSectionsTogether,
+    maxPapersPerRoom, maxSectionsPerRoom, emergencyMode, emergencyExtraSeats, emergencyRelaxMinChunk,
+  };
+
+  const settingSetters: { [K in keyof AllocationSettings]: (value: AllocationSettings[K]) => void } = {
+    algorithm: setAlgorithm,
+    minChunk: setMinChunk,
+    interleaved: setInterleaved,
+    usePriorityOrder: setUsePriorityOrder,
+    optimiserTimeLimit: setOptimiserTimeLimit,
+    keepSectionsTogether: setKeepSectionsTogether,
+    maxPapersPerRoom: setMaxPapersPerRoom,
+    maxSectionsPerRoom: setMaxSectionsPerRoom,
+    emergencyMode: setEmergencyMode,
+    emergencyExtraSeats: setEmergencyExtraSeats,
+    emergencyRelaxMinChunk: setEmergencyRelaxMinChunk,
+  };
+
+  // Change one allocation setting as an undoable step; typing into the same field stays one step
+  const changeSetting = <K extends keyof AllocationSettings>(key: K, value: AllocationSettings[K], label: string) => {
+    settingSetters[key](value);
+    recordStep(label, { settings: { ...allocationSettings, [key]: value } }, `setting-${key}`);
+  };
+
+  // Rooms as the algorithms see them: unavailable rooms removed, blocked seats taken off capacity
+  const availableBlocks = applyAvailability(roomBlocks, unavailableRooms, blockedSeats, standbyRooms);
+
+  const roomsReady = () => {
+    if (!roomBlocks.length) {
+      alert("Room data is still loading. Please try again in a moment.");
+      return false;
     }
-    for (const s of sectionLeft) {
-      if (s.students > 0) {
-        result.push({
-          branch: s.branch,
-          section: s.section,
-          roomNo: "NO SPACE",
-          students: s.students,
-          error: true
-        });
-      }
+    if (validateRoomBlocks(roomBlocks).some(i => i.severity === 'error')) {
+      alert("The room inventory has errors. Fix them in the Room Inventory panel before allocating.");
+      return false;
     }
-    return { result, roomUsage };
-  }
+    if (!availableBlocks.some(b => b.rooms.length > 0)) {
+      alert("Every room is marked unavailable. Make at least one room available before allocating.");
+      return false;
+    }
+    return true;
+  };
 
-  // 4. Best-Fit/First-Fit Decreasing
-  // This algorithm sorts sections and rooms by size, then tries to fit each section into the best-fitting room (the smallest room that can fit the section).
-  // If no perfect fit is found, it uses the first room with available space, possibly splitting the section across multiple rooms.
-  // It respects the minChunk constraint, so no small group is placed at the start of a room unless it's the only way.
-  // This approach generally improves efficiency and reduces splits compared to simple greedy, but may still split sections if needed.
-  // Room usage order and block advancement are enforced as per user requirements.
-  function allocateBestFitFFD() {
-    const result: Allocation[] = [];
-    const roomUsage: Record<string, number> = {};
-    // Flatten rooms in the exact order specified by the user
-    const orderedRoomBlocks = [
-      // APJ Block
-      ["APJ-1","APJ-2","APJ-3","APJ-4","APJ-5","APJ-6","APJ-7","APJ-8","APJ-9","APJ-10","APJ-11"],
-      // S Block
-      ["S-01","S-02","S-03","S-04"],
-      // 8A Block
-      ["002/8A","003/8A","102/8A","103/8A","110/8A"],
-      // 5 Block (Main)
-      ["13/5","14/5","15/5","17/5","22/5","24/5","27/5","28/5"],
-      // 5 Block (100s)
-      ["116/5","119/5","138/5"],
-      // 5 Block (200s)
-      ["215/5","216/5","217/5","219/5","221/5","222/5"],
-      // 5 Block (300s)
-      ["301/5","305/5","306/5","307/5","311/5","312/5"],
-      // 6 Block (100s)
-      ["113/6","114/6","117/6","127/6"],
-      // 6 Block (300s)
-      ["313/6","314/6"],
-      // 4 Block
-      ["13/4","14/4","17/4","24/4"],
-      // MPC Block
-      ["MPC-01","MPC-02"]
-    ];
-    // Map roomNo to block index for fast lookup
-    const roomToBlockIdx: Record<string, number> = {};
-    orderedRoomBlocks.forEach((block, idx) => block.forEach(roomNo => { roomToBlockIdx[roomNo] = idx; }));
-    // Flatten all rooms in order
-    const allRooms: (Room & { blockName: string })[] = orderedRoomBlocks.flatMap((block, blockIdx) =>
-      block.map(roomNo => {
-        const blockObj = roomBlocks.find(b => b.rooms.some(r => r.no === roomNo));
-        const roomObj = blockObj?.rooms.find(r => r.no === roomNo);
-        return { ...roomObj!, blockName: blockObj?.name || "" };
-      })
-    );
-    const sectionLeft: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
-    sectionLeft.sort((a, b) => b.students - a.students);
-    let maxBlockIdx = 0;
-    for (const section of sectionLeft) {
-      let remaining = section.students;
-      while (remaining > 0) {
-        // Only consider rooms in blocks up to maxBlockIdx
-        let bestRoomIdx = -1;
-        let bestRoomSpace = Infinity;
-        for (let i = 0; i < allRooms.length; ++i) {
-          const room = allRooms[i];
-          const blockIdx = roomToBlockIdx[room.no];
-          if (blockIdx > maxBlockIdx) continue;
-          const used = roomUsage[room.no] || 0;
-          const available = room.capacity - used;
-          if (available >= remaining && available < bestRoomSpace) {
-            bestRoomSpace = available;
-            bestRoomIdx = i;
-          }
-        }
-        if (bestRoomIdx !== -1) {
-          const room = allRooms[bestRoomIdx];
-          const used = roomUsage[room.no] || 0;
-          // Prevent starting a room with a small chunk unless it's the only way
-          if (used === 0 && remaining < minChunk && remaining === section.students) {
-            const anyRoomHasStudents = allRooms.some(r => (roomUsage[r.no] || 0) > 0);
-            if (!anyRoomHasStudents) {
-              // Allow placing the last small chunk in an empty room
-            } else {
-              break;
-            }
-          } else if (remaining < minChunk && remaining !== section.students) break;
-          result.push({
-            branch: section.branch,
-            section: section.section,
-            roomNo: room.no,
-            students: remaining,
-            startSeat: used + 1,
-            endSeat: used + remaining,
-            blockName: room.blockName
-          });
-          roomUsage[room.no] = used + remaining;
-          // After using a room, check if all rooms in current block are used, then unlock next block
-          const currentBlockRooms = orderedRoomBlocks[maxBlockIdx];
-          if (currentBlockRooms.every(rn => (roomUsage[rn] || 0) > 0) && maxBlockIdx < orderedRoomBlocks.length - 1) {
-            maxBlockIdx++;
-          }
-          remaining = 0;
-          continue;
-        }
-        // If no best-fit, use first-fit in current blocks
-        let allocated = false;
-        for (let i = 0; i < allRooms.length; ++i) {
-          const room = allRooms[i];
-          const blockIdx = roomToBlockIdx[room.no];
-          if (blockIdx > maxBlockIdx) continue;
-          const used = roomUsage[room.no] || 0;
-          const available = room.capacity - used;
-          if (available <= 0) continue;
-          let toAllocate = Math.min(available, remaining);
-          // Prevent starting a room with a small chunk unless it's the only way
-          if (used === 0 && toAllocate < minChunk && remaining === toAllocate) {
-            const anyRoomHasStudents = allRooms.some(r => (roomUsage[r.no] || 0) > 0);
-            if (!anyRoomHasStudents) {
-              // Allow placing the last small chunk in an empty room
-            } else {
-              continue;
-            }
-          } else if (toAllocate < minChunk && remaining > minChunk) {
-            continue;
-          }
-          result.push({
-            branch: section.branch,
-            section: section.section,
-            roomNo: room.no,
-            students: toAllocate,
-            startSeat: used + 1,
-            endSeat: used + toAllocate,
-            partial: toAllocate !== section.students,
-            blockName: room.blockName
-          });
-          roomUsage[room.no] = used + toAllocate;
-          // After using a room, check if all rooms in current block are used, then unlock next block
-          const currentBlockRooms = orderedRoomBlocks[maxBlockIdx];
-          if (currentBlockRooms.every(rn => (roomUsage[rn] || 0) > 0) && maxBlockIdx < orderedRoomBlocks.length - 1) {
-            maxBlockIdx++;
-          }
-          remaining -= toAllocate;
-          allocated = true;
-          break;
-        }
-        if (!allocated) {
-          // Could not allocate in current blocks
-          break;
-        }
-      }
-      if (remaining > 0) {
-        result.push({
-          branch: section.branch,
-          section: section.section,
-          roomNo: "NO SPACE",
-          students: remaining,
-          error: true
-        });
-      }
+  // Sections as the allocator sees them: roster students with room requirements split out into their own groups
+  const allocationDemand = () =>
+    applyStudentRequirements(sections, roster.filter(st => !rosterMismatches[`${st.branch}-${st.section}`]));
+
+  // Everything a job reads from the page. A result computed from inputs that have since changed is stale.
+  const jobInputs = () => JSON.stringify({
+    sections, roster, availableBlocks, settings: allocationSettings, sessions, baseline: published?.allocation,
+  });
+
+  // Apply a finished job's result. Called through `latestRender` so it sees the state at the time the result arrives.
+  const applyJobResult = (result: AllocationJobResult) => {
+    switch (result.kind) {
+      case 'run':
+        applyOutcome(result.outcome, `Ran ${interleaved ? 'Interleaved Seating' : algorithmName(algorithm)}`);
+        break;
+      case 'reallocate':
+        applyOutcome(result.outcome, 'Reallocated from the published plan');
+        break;
+      case 'compare':
+        setComparisons(result.comparisons);
+        setAdoptedAlgorithm(null);
+        break;
+      case 'timetable':
+        setSessionResults(result.results);
+        break;
     }
-    return { result, roomUsage };
-  }
+  };
+
+  // Worker callbacks outlive the render that started the job; they read state through this instead
+  const latestRender = useRef({ jobInputs, applyJobResult });
+  latestRender.current = { jobInputs, applyJobResult };
+
+  // Run a job in a fresh allocation worker, replacing any job still running. The page stays usable;
+  // the result is applied unless the job is cancelled first, or discarded if its inputs were edited meanwhile.
+  const startJob = (job: AllocationJob, label: string) => {
+    if (activeJob) activeJob.worker.terminate();
+    const worker = new Worker(new URL('../utils/allocation.worker.ts', import.meta.url));
+    const inputs = jobInputs();
+    const finish = () => {
+      worker.terminate();
+      setActiveJob(current => (current && current.worker === worker ? null : current));
+    };
+    worker.onmessage = (e: MessageEvent<AllocationWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        setActiveJob(current => (current && current.worker === worker ? { ...current, progress: message.progress } : current));
+        return;
+      }
+      finish();
+      if (message.type === 'error') alert(`${label} failed: ${message.message}`);
+      else if (latestRender.current.jobInputs() !== inputs) alert(`${label} was discarded: sections, rooms or settings changed while it ran. Run it again.`);
+      else latestRender.current.applyJobResult(message.result);
+    };
+    worker.onerror = e => {
+      finish();
+      alert(`${label} failed: ${e.message}`);
+    };
+    setActiveJob({ worker, label, progress: { done: 0, total: 1 } });
+    worker.postMessage(job);
+  };
 
-  // --- END ALGORITHMS ---
+  // Stop the worker when the allocator goes away (e.g. the page switches to the student lookup)
+  const runningWorker = activeJob?.worker;
+  useEffect(() => () => runningWorker?.terminate(), [runningWorker]);
+
+  const cancelJob = () => {
+    if (!activeJob) return;
+    activeJob.worker.terminate();
+    setActiveJob(null);
+  };
+
+  const applyOutcome = (outcome: AllocationOutcome, label: string) => {
+    const newStats = computeStats(sections, outcome, availableBlocks);
+    setAllocation(outcome.result);
+    setOptimiserReport(outcome.report || null);
+    setEmergencyReport(outcome.emergency || null);
+    setStats(newStats);
+    setAdoptedAlgorithm(null);
+    recordStep(label, { allocation: outcome.result, stats: newStats });
+  };
 
   const allocateSeats = () => {
-    if (!roomBlocks.length) {
-      alert("Room data is still loading. Please try again in a moment.");
-      return;
-    }
-    let allocationResult;
-    if (algorithm === 1) allocationResult = allocateSimpleGreedy();
-    else if (algorithm === 2) allocationResult = allocateGreedyMinChunk();
-    else if (algorithm === 3) allocationResult = allocateGreedyLookahead();
-    else allocationResult = allocateBestFitFFD();
-    const { result, roomUsage } = allocationResult;
-    setAllocation(result);
-    // Calculate statistics
-    const totalStudents = sections.reduce((sum, s) => sum + (s.students || 0), 0);
-    const allocatedStudents = result.filter(r => !r.error).reduce((sum, r) => sum + r.students, 0);
-    const roomsUsed = new Set(result.filter(r => !r.error).map(r => r.roomNo)).size;
-    const blocksUsed = new Set(result.filter(r => !r.error && r.blockName).map(r => r.blockName)).size;
-    let totalCapacity = 0;
-    for (const [roomNo, used] of Object.entries(roomUsage)) {
-      const room = roomBlocks.flatMap(b => b.rooms).find(r => r.no === roomNo);
-      if (room) totalCapacity += room.capacity;
+    if (!roomsReady()) return;
+    const name = interleaved ? 'Interleaved Seating' : algorithmName(algorithm);
+    const limit = !interleaved && algorithm === 5 ? ` (up to ${optimiserTimeLimit} s)` : '';
+    startJob(
+      { kind: 'run', sections: allocationDemand(), roomBlocks: availableBlocks, settings: allocationSettings },
+      `Running ${name}${limit}`
+    );
+  };
+
+  // Seat only what changed since the published plan; everyone else keeps their seat
+  const reallocateFromPublished = () => {
+    if (!published || !roomsReady()) return;
+    startJob(
+      { kind: 'reallocate', baseline: published.allocation, sections: allocationDemand(), roomBlocks: availableBlocks, settings: allocationSettings },
+      'Reallocating from the published plan'
+    );
+  };
+
+  const compareAllAlgorithms = () => {
+    if (!roomsReady()) return;
+    startJob(
+      { kind: 'compare', sections: allocationDemand(), roomBlocks: availableBlocks, settings: allocationSettings, algorithms: ALGO_OPTIONS.map(opt => opt.value) },
+      'Comparing algorithms'
+    );
+  };
+
+  const adoptComparison = (comparison: AlgorithmComparison) => {
+    setAlgorithm(comparison.algorithm);
+    setInterleaved(false);
+    setAllocation(comparison.outcome.result);
+    setOptimiserReport(comparison.outcome.report || null);
+    setEmergencyReport(comparison.outcome.emergency || null);
+    setStats(comparison.stats);
+    setAdoptedAlgorithm(comparison.algorithm);
+    recordStep(`Adopted ${algorithmName(comparison.algorithm)} from the comparison`, {
+      settings: { ...allocationSettings, algorithm: comparison.algorithm, interleaved: false },
+      allocation: comparison.outcome.result,
+      stats: comparison.stats,
+    });
+  };
+
+  const updateSessions = (updated: ExamSession[]) => {
+    setSessions(updated);
+    setSessionResults([]);
+  };
+
+  const allocateSessions = () => {
+    if (!roomsReady()) return;
+    startJob(
+      { kind: 'timetable', sessions, sections: allocationDemand(), roomBlocks: availableBlocks, settings: allocationSettings },
+      'Allocating timetable sessions'
+    );
+  };
+
+  // Manual edits replace the plan in place; stats follow the edited allocation
+  const applyAllocationEdit = (updated: Allocation[], label: string) => {
+    const newStats = computeStats(sections, { result: updated, roomUsage: buildRoomUsage(updated) }, availableBlocks);
+    setAllocation(updated);
+    setStats(newStats);
+    setOptimiserReport(null);
+    setEmergencyReport(null);
+    setAdoptedAlgorithm(null);
+    recordStep(label, { allocation: updated, stats: newStats });
+  };
+
+  const handleChunkDragStart = (e: React.DragEvent, alloc: Allocation) => {
+    e.dataTransfer.setData('text/plain', String(allocation.indexOf(alloc)));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Drop-zone handlers for a room (or the unplaced tray)
+  const chunkDropProps = (roomNo: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(roomNo);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const index = Number(e.dataTransfer.getData('text/plain'));
+      const chunk = allocation[index];
+      if (Number.isNaN(index) || !chunk) return;
+      applyAllocationEdit(
+        moveChunk(allocation, index, roomNo, sections, availableBlocks),
+        roomNo === UNPLACED_ROOM
+          ? `Unplaced ${chunk.students} of ${chunk.branch}-${chunk.section}`
+          : `Moved ${chunk.students} of ${chunk.branch}-${chunk.section} to ${roomNo}`
+      );
+    },
+  });
+
+  const promptSplit = (alloc: Allocation) => {
+    const answer = window.prompt(`Split ${alloc.branch}-${alloc.section} (${alloc.students} students): how many go in the first part?`);
+    const count = parseInt(answer || '');
+    if (!count || count <= 0 || count >= alloc.students) return;
+    applyAllocationEdit(
+      splitChunk(allocation, allocation.indexOf(alloc), count, sections, availableBlocks),
+      `Split ${alloc.branch}-${alloc.section} in ${alloc.roomNo}`
+    );
+  };
+
+  const createPlan = (name: string): SavedPlan => ({
+    version: PLAN_SCHEMA_VERSION,
+    id: '',
+    name,
+    savedAt: new Date().toISOString(),
+    sections,
+    roomBlocks,
+    unavailableRooms,
+    blockedSeats,
+    standbyRooms,
+    settings: allocationSettings,
+    allocation,
+    stats: Object.keys(stats).length > 0 ? stats : null,
+    published,
+  });
+
+  const openPlan = (plan: SavedPlan) => {
+    setSections(plan.sections);
+    if (plan.roomBlocks.length > 0) {
+      setRoomBlocks(plan.roomBlocks);
+      setRoomParseIssues([]);
     }
-    const wastedSeats = totalCapacity - allocatedStudents;
-    setStats({
-      totalStudents,
-      allocatedStudents,
-      roomsUsed,
-      blocksUsed,
-      totalCapacity,
-      wastedSeats,
-      efficiency: totalCapacity > 0 ? ((allocatedStudents / totalCapacity) * 100).toFixed(1) : '0'
+    setUnavailableRooms(plan.unavailableRooms);
+    setBlockedSeats(plan.blockedSeats);
+    setStandbyRooms(plan.standbyRooms);
+    setAlgorithm(plan.settings.algorithm);
+    setMinChunk(plan.settings.minChunk);
+    setInterleaved(plan.settings.interleaved);
+    setUsePriorityOrder(plan.settings.usePriorityOrder);
+    setKeepSectionsTogether(plan.settings.keepSectionsTogether);
+    setMaxPapersPerRoom(plan.settings.maxPapersPerRoom);
+    setMaxSectionsPerRoom(plan.settings.maxSectionsPerRoom);
+    setEmergencyMode(plan.settings.emergencyMode);
+    setEmergencyExtraSeats(plan.settings.emergencyExtraSeats);
+    setEmergencyRelaxMinChunk(plan.settings.emergencyRelaxMinChunk);
+    setOptimiserTimeLimit(plan.settings.optimiserTimeLimit);
+    setAllocation(plan.allocation);
+    setStats(plan.stats || ({} as Stats));
+    setOptimiserReport(null);
+    setEmergencyReport(null);
+    setComparisons([]);
+    setAdoptedAlgorithm(null);
+    setSessionResults([]);
+    setPublished(plan.published);
+  };
+
+  // Record an undoable step: the current state with `changes` applied, since state set in the same
+  // handler only shows up on the next render. The state before the first change becomes the starting point.
+  const recordStep = (label: string, changes: Partial<SavedPlan>, mergeKey?: string) => {
+    const at = new Date().toISOString();
+    setHistory(current => {
+      const started = current.steps.length > 0
+        ? current
+        : addStep(current, { label: 'Starting point', at, plan: createPlan('Starting point') });
+      return addStep(started, { label, at, mergeKey, plan: { ...createPlan(label), ...changes } });
     });
   };
 
+  const goToStep = (index: number) => {
+    const step = history.steps[index];
+    if (!step || index === history.current) return;
+    // Publishing is not undone: the notices are already out
+    openPlan({ ...step.plan, published });
+    setHistory({ ...history, current: index });
+  };
+  const undo = () => { if (canUndo(history)) goToStep(history.current - 1); };
+  const redo = () => { if (canRedo(history)) goToStep(history.current + 1); };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes. Text fields keep their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'checkbox')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const getSectionProgressColor = (branch: string, section: string) => {
     const branchColors: Record<string, Record<string, string>> = {
       'BT':    { '1': 'bg-amber-500', '2': 'bg-amber-600', '3': 'bg-amber-700', '4': 'bg-amber-800' },
@@ -603,6 +561,22 @@ const ExamSeatingAllocator: React.FC = () => {
     return branchColors[branch]?.[section] || 'bg-gray-100 border-gray-300';
   };
 
+  // Parse issues are tied to file lines; validation issues are recomputed from the current (possibly edited) rooms
+  const roomIssues = [...roomParseIssues, ...validateRoomBlocks(roomBlocks)];
+
+  // Roster validation and per-student seats; mismatched sections are reported and left unseated
+  const rosterMismatches = roster.length > 0 ? validateRoster(roster, sections) : {};
+  const rosterErrors = [...rosterParseErrors, ...Object.values(rosterMismatches)];
+  const seatAssignments = roster.length > 0
+    ? assignStudentSeats(roster, allocation, availableBlocks.flatMap(b => b.rooms), new Set(Object.keys(rosterMismatches)))
+    : [];
+
+  const allocationWarnings = allocation.length > 0 ? checkAllocation(allocation, sections, availableBlocks, minChunk, allocationSettings) : [];
+  const invariantViolations = allocation.length > 0 ? verifyAllocation(allocation, sections, availableBlocks, allocationSettings) : [];
+  const unplacedChunks = allocation.filter(a => a.error);
+  const unmetRequirements = describeUnmetRequirements(allocation);
+  const emptyRooms = availableBlocks.flatMap(b => b.rooms).filter(room => !allocation.some(a => a.roomNo === room.no));
+
   const groupedAllocation = allocation.reduce((acc: Record<string, Allocation[]>, item) => {
     const key = `${item.branch}-${item.section}`;
     if (!acc[key]) acc[key] = [];
@@ -610,13 +584,69 @@ const ExamSeatingAllocator: React.FC = () => {
     return acc;
   }, {});
 
+  if (printView === 'sheets') {
+    return (
+      <PrintSheets
+        roomBlocks={availableBlocks}
+        allocation={allocation}
+        seatAssignments={seatAssignments}
+        onClose={() => setPrintView(null)}
+      />
+    );
+  }
+  if (printView === 'qrNotices') {
+    return <QrNotices seatAssignments={seatAssignments} settings={lookupSettings} onClose={() => setPrintView(null)} />;
+  }
+
   return (
     <div className="max-w-7xl mx-auto p-6 bg-gray-50 min-h-screen">
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-        <h1 className="text-3xl font-bold text-gray-800 mb-6 flex items-center gap-3">
-          <Building className="text-blue-600" />
-          Intelligent Exam Seating Allocator
-        </h1>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <h1 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+            <Building className="text-blue-600" />
+            Intelligent Exam Seating Allocator
+          </h1>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={undo}
+              disabled={!canUndo(history)}
+              className="p-2 border rounded-md hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-white"
+              title={canUndo(history) ? `Undo ${history.steps[history.current].label} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+              <Undo2 size={18} />
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo(history)}
+              className="p-2 border rounded-md hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-white"
+              title={canRedo(history) ? `Redo ${history.steps[history.current + 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+              <Redo2 size={18} />
+            </button>
+            <button
+              onClick={() => setHistoryOpen(!historyOpen)}
+              className="flex items-center gap-2 px-3 py-2 border rounded-md hover:bg-gray-50"
+            >
+              <HistoryIcon size={18} />
+              History
+            </button>
+          </div>
+        </div>
+
+        {activeJob && <RunProgress label={activeJob.label} progress={activeJob.progress} onCancel={cancelJob} />}
+
+        {historyOpen && (
+          <HistorySidebar history={history} onSelect={goToStep} onUndo={undo} onRedo={redo} onClose={() => setHistoryOpen(false)} />
+        )}
+
+        {/* Saved Plans */}
+        <PlansPanel
+          createPlan={createPlan}
+          onOpen={plan => {
+            openPlan(plan);
+            recordStep(`Opened plan ${plan.name}`, plan);
+          }}
+        />
 
         {/* Algorithm Dropdown and min chunk input */}
         <div className="mb-6 flex flex-col md:flex-row md:items-end gap-4">
@@ -626,7 +656,8 @@ const ExamSeatingAllocator: React.FC = () => {
               id="algorithm-select"
               className="px-3 py-2 border rounded-md w-full max-w-xs"
               value={algorithm}
-              onChange={e => setAlgorithm(Number(e.target.value))}
+              onChange={e => changeSetting('algorithm', Number(e.target.value), `Chose ${algorithmName(Number(e.target.value))}`)}
+              disabled={interleaved}
             >
               {ALGO_OPTIONS.map(opt => (
                 <option key={opt.value} value={opt.value}>{opt.label}</option>
@@ -641,14 +672,139 @@ const ExamSeatingAllocator: React.FC = () => {
               min={1}
               className="px-3 py-2 border rounded-md w-40"
               value={minChunk}
-              onChange={e => setMinChunk(Number(e.target.value))}
+              onChange={e => changeSetting('minChunk', Number(e.target.value), `Set minimum chunk to ${e.target.value}`)}
+            />
+          </div>
+          <div>
+            <label htmlFor="max-papers" className="block mb-2 font-medium text-gray-700">Max papers per room (0 = no limit):</label>
+            <input
+              id="max-papers"
+              type="number"
+              min={0}
+              className="px-3 py-2 border rounded-md w-40"
+              value={maxPapersPerRoom}
+              onChange={e => changeSetting('maxPapersPerRoom', Math.max(0, Number(e.target.value) || 0), 'Changed max papers per room')}
             />
           </div>
+          <div>
+            <label htmlFor="max-sections" className="block mb-2 font-medium text-gray-700">Max sections per room (0 = no limit):</label>
+            <input
+              id="max-sections"
+              type="number"
+              min={0}
+              className="px-3 py-2 border rounded-md w-40"
+              value={maxSectionsPerRoom}
+              onChange={e => changeSetting('maxSectionsPerRoom', Math.max(0, Number(e.target.value) || 0), 'Changed max sections per room')}
+            />
+          </div>
+          <label className="flex items-center gap-2 py-2 font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={interleaved}
+              onChange={e => changeSetting('interleaved', e.target.checked, `Turned interleaved seating ${e.target.checked ? 'on' : 'off'}`)}
+            />
+            Interleaved seating (no classmates side by side)
+          </label>
+          <label className="flex items-center gap-2 py-2 font-medium text-gray-700" title="Set the order in the Room Inventory panel. When off, rooms are filled largest first; Best-Fit always opens blocks in priority order.">
+            <input
+              type="checkbox"
+              checked={usePriorityOrder}
+              onChange={e => changeSetting('usePriorityOrder', e.target.checked, `Turned block priority order ${e.target.checked ? 'on' : 'off'}`)}
+            />
+            Fill rooms in block priority order
+          </label>
+          <label className="flex items-center gap-2 py-2 font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={keepSectionsTogether}
+              onChange={e => changeSetting('keepSectionsTogether', e.target.checked, `Turned keep sections within a block ${e.target.checked ? 'on' : 'off'}`)}
+            />
+            Keep each section within one block
+          </label>
+          <label className="flex items-center gap-2 py-2 font-medium text-gray-700" title="Mark standby rooms in the Room Availability panel">
+            <input
+              type="checkbox"
+              checked={emergencyMode}
+              onChange={e => changeSetting('emergencyMode', e.target.checked, `Turned emergency overflow ${e.target.checked ? 'on' : 'off'}`)}
+            />
+            Emergency overflow when seats run out
+          </label>
+          {emergencyMode && (
+            <>
+              <div>
+                <label htmlFor="emergency-extra" className="block mb-2 font-medium text-gray-700">Extra benches per room in an emergency:</label>
+                <input
+                  id="emergency-extra"
+                  type="number"
+                  min={0}
+                  className="px-3 py-2 border rounded-md w-40"
+                  value={emergencyExtraSeats}
+                  onChange={e => changeSetting('emergencyExtraSeats', Math.max(0, Number(e.target.value) || 0), 'Changed emergency extra benches')}
+                />
+              </div>
+              <label className="flex items-center gap-2 py-2 font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={emergencyRelaxMinChunk}
+                  onChange={e => changeSetting('emergencyRelaxMinChunk', e.target.checked, `Turned emergency minimum relaxation ${e.target.checked ? 'on' : 'off'}`)}
+                />
+                Relax the minimum per room in an emergency
+              </label>
+            </>
+          )}
+          {algorithm === 5 && !interleaved && (
+            <div>
+              <label htmlFor="optimiser-time" className="block mb-2 font-medium text-gray-700">Optimiser time limit (seconds):</label>
+              <input
+                id="optimiser-time"
+                type="number"
+                min={1}
+                max={60}
+                className="px-3 py-2 border rounded-md w-40"
+                value={optimiserTimeLimit}
+                onChange={e => changeSetting('optimiserTimeLimit', Math.max(1, Number(e.target.value) || 1), 'Changed optimiser time limit')}
+              />
+            </div>
+          )}
         </div>
 
+        {optimiserReport && (
+          <div className="mb-6 p-3 rounded-md bg-indigo-50 border border-indigo-200 text-sm text-indigo-900">
+            Optimiser plan cost {optimiserReport.cost} after exploring {optimiserReport.nodes.toLocaleString()} search nodes.{' '}
+            {optimiserReport.complete
+              ? 'Search completed: no better plan exists among whole/split placements.'
+              : 'Time limit reached: showing the best plan found so far.'}
+          </div>
+        )}
+
+        {emergencyReport && (
+          <div className="mb-6 p-3 rounded-md bg-orange-50 border border-orange-300 text-sm text-orange-900">
+            <div className="font-semibold flex items-center gap-2">
+              <AlertCircle size={16} />
+              Emergency overflow seated {emergencyReport.students} student(s)
+              {emergencyReport.unplaced > 0 && `; ${emergencyReport.unplaced} still have no seat`}
+            </div>
+            <ul className="list-disc list-inside mt-1">
+              {emergencyReport.standbyRooms.length > 0 && (
+                <li>Opened standby room(s): {emergencyReport.standbyRooms.join(', ')}</li>
+              )}
+              {emergencyReport.relaxedMinChunk && (
+                <li>Allowed groups smaller than the minimum of {minChunk} per room</li>
+              )}
+              {Object.keys(emergencyReport.overCapacity).length > 0 && (
+                <li>
+                  Extra benches beyond capacity:{' '}
+                  {Object.entries(emergencyReport.overCapacity).map(([roomNo, extra]) => `${roomNo} (+${extra})`).join(', ')}
+                </li>
+              )}
+              {emergencyReport.students === 0 && <li>No relaxation could seat the remaining students</li>}
+            </ul>
+          </div>
+        )}
+
         {/* Statistics Dashboard */}
         {Object.keys(stats).length > 0 && (
-          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-7 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-9 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">{stats.totalStudents}</div>
               <div className="text-sm text-gray-600">Total Students</div>
@@ -669,10 +825,18 @@ const ExamSeatingAllocator: React.FC = () => {
               <div className="text-2xl font-bold text-red-600">{stats.wastedSeats}</div>
               <div className="text-sm text-gray-600">Wasted Seats</div>
             </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-gray-700">{stats.blockedSeats}</div>
+              <div className="text-sm text-gray-600">Blocked Seats</div>
+            </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-indigo-600">{stats.blocksUsed}</div>
               <div className="text-sm text-gray-600">Blocks Used</div>
             </div>
+            <div className="text-center" title="Extra blocks that sections are spread over">
+              <div className={`text-2xl font-bold ${stats.localityPenalty > 0 ? 'text-amber-600' : 'text-gray-700'}`}>{stats.localityPenalty}</div>
+              <div className="text-sm text-gray-600">Locality Penalty</div>
+            </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-cyan-600">{stats.efficiency}%</div>
               <div className="text-sm text-gray-600">Efficiency</div>
@@ -680,6 +844,90 @@ const ExamSeatingAllocator: React.FC = () => {
           </div>
         )}
 
+        {allocation.length > 0 && <DiagnosticsPanel violations={invariantViolations} />}
+
+        {allocation.length > 0 && (
+          <AnalyticsPanel allocation={allocation} roomBlocks={availableBlocks} minChunk={minChunk} />
+        )}
+
+        {/* Room requirements that could not be met */}
+        {unmetRequirements.length > 0 && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-300 rounded-md text-sm text-red-800">
+            <div className="font-medium mb-1 flex items-center gap-2">
+              <AlertCircle size={16} />
+              Room requirements not met:
+            </div>
+            <ul className="list-disc pl-6">
+              {unmetRequirements.map((msg, idx) => <li key={idx}>{msg}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {/* Export */}
+        {allocation.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <span className="text-sm font-medium text-gray-700">Export results:</span>
+            <button
+              onClick={() => exportAllocationCsv(allocation)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+            >
+              <Download size={16} />
+              Allocation CSV
+            </button>
+            <button
+              onClick={() => exportStatsCsv(stats, allocation, availableBlocks)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+            >
+              <Download size={16} />
+              Statistics CSV
+            </button>
+            <button
+              onClick={() => exportXlsx(stats, allocation, availableBlocks)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+            >
+              <Download size={16} />
+              Excel workbook (.xlsx)
+            </button>
+            <button
+              onClick={() => setPublished({ allocation, at: new Date().toISOString() })}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm border border-purple-400 text-purple-800 rounded-md hover:bg-purple-50"
+              title="Keep this plan as the baseline that later reallocations change as little as possible"
+            >
+              <Pin size={16} />
+              Mark as published
+            </button>
+          </div>
+        )}
+
+        {/* Room Inventory */}
+        <RoomEditor
+          roomBlocks={roomBlocks}
+          issues={roomIssues}
+          onChange={updateRoomBlocks}
+          onUpload={handleRoomUpload}
+          onExport={() => downloadFile('room information.csv', roomBlocksToCsv(roomBlocks), 'text/csv;charset=utf-8')}
+        />
+
+        {/* Room Availability */}
+        <AvailabilityPanel
+          roomBlocks={roomBlocks}
+          unavailableRooms={unavailableRooms}
+          blockedSeats={blockedSeats}
+          standbyRooms={standbyRooms}
+          onUnavailableChange={rooms => {
+            setUnavailableRooms(rooms);
+            recordStep('Changed unavailable rooms', { unavailableRooms: rooms });
+          }}
+          onBlockedSeatsChange={seats => {
+            setBlockedSeats(seats);
+            recordStep('Changed blocked seats', { blockedSeats: seats });
+          }}
+          onStandbyChange={rooms => {
+            setStandbyRooms(rooms);
+            recordStep('Changed standby rooms', { standbyRooms: rooms });
+          }}
+        />
+
         {/* Section Input */}
         <div className="mb-6">
           <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
@@ -687,6 +935,8 @@ const ExamSeatingAllocator: React.FC = () => {
             Student Sections
           </h2>
 
+          <SectionImportPanel sections={sections} onImport={imported => updateSections(imported, `Imported sections (${imported.length} in list)`)} />
+
           <div className="space-y-3">
             {sections.map((section) => (
               <div key={section.id} className="flex gap-3 items-center p-3 bg-gray-50 rounded-lg">
@@ -711,9 +961,31 @@ const ExamSeatingAllocator: React.FC = () => {
                   onChange={(e) => updateSection(section.id, 'students', e.target.value)}
                   className="px-3 py-2 border rounded-md w-24"
                 />
+                <input
+                  type="text"
+                  placeholder="Paper code"
+                  value={section.paper || ''}
+                  onChange={(e) => updateSection(section.id, 'paper', e.target.value)}
+                  className="px-3 py-2 border rounded-md w-28"
+                  title="Subject/paper code the section sits"
+                />
+                <div className="flex flex-wrap gap-1" title="Room requirements for the whole section">
+                  {ALL_REQUIREMENTS.map(req => {
+                    const active = (section.requirements || []).includes(req);
+                    return (
+                      <button
+                        key={req}
+                        onClick={() => toggleSectionRequirement(section.id, req)}
+                        className={`px-2 py-0.5 text-xs rounded-full border ${active ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                      >
+                        {REQUIREMENT_LABELS[req]}
+                      </button>
+                    );
+                  })}
+                </div>
                 <button
                   onClick={() => removeSection(section.id)}
-                  className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-md ml-auto"
                   title="Remove section"
                 >
                   <Trash2 size={18} />
@@ -731,21 +1003,157 @@ const ExamSeatingAllocator: React.FC = () => {
           </button>
         </div>
 
-        <button
-          onClick={allocateSeats}
-          className="mb-6 flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-medium"
-        >
-          <Calculator size={18} />
-          Allocate Seats
-        </button>
+        {/* Roster Upload */}
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <FileText className="text-purple-600" />
+            Student Roster (optional)
+          </h2>
+          <p className="text-sm text-gray-600 mb-2">
+            Upload a CSV with Roll Number, Name, Branch and Section columns to get a named seat for every student.
+            An optional Requirements column (e.g. "wheelchair; ground floor") places those students only in suitable rooms.
+          </p>
+          <div className="flex items-center gap-3">
+            <input type="file" accept=".csv,text/csv" onChange={handleRosterUpload} className="text-sm" />
+            {roster.length > 0 && (
+              <>
+                <span className="text-sm text-gray-700">{roster.length} students loaded</span>
+                <button onClick={clearRoster} className="text-sm text-red-600 hover:underline">Clear roster</button>
+              </>
+            )}
+          </div>
+          {rosterErrors.length > 0 && (
+            <div className="mt-3 p-3 bg-red-50 border border-red-300 rounded-md text-sm text-red-800">
+              <div className="font-medium mb-1 flex items-center gap-2">
+                <AlertCircle size={16} />
+                Roster validation failed; affected sections will not get named seats:
+              </div>
+              <ul className="list-disc pl-6">
+                {rosterErrors.map((err, idx) => <li key={idx}>{err}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-3">
+          <button
+            onClick={allocateSeats}
+            disabled={!!activeJob}
+            className="flex items-center gap-2 px-6 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-medium disabled:bg-green-300"
+          >
+            <Calculator size={18} />
+            Allocate Seats
+          </button>
+          <button
+            onClick={compareAllAlgorithms}
+            disabled={!!activeJob}
+            className="flex items-center gap-2 px-6 py-3 border border-blue-600 text-blue-700 rounded-md hover:bg-blue-50 font-medium disabled:opacity-50"
+          >
+            <BarChart3 size={18} />
+            Compare All Algorithms
+          </button>
+          {published && (
+            <button
+              onClick={reallocateFromPublished}
+              disabled={!!activeJob}
+              className="flex items-center gap-2 px-6 py-3 border border-purple-600 text-purple-700 rounded-md hover:bg-purple-50 font-medium disabled:opacity-50"
+            >
+              <RefreshCw size={18} />
+              Reallocate from Published Plan
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Algorithm Comparison */}
+      {comparisons.length > 0 && (
+        <ComparisonPanel
+          comparisons={comparisons}
+          labels={Object.fromEntries(ALGO_OPTIONS.map(opt => [opt.value, opt.label]))}
+          minChunk={minChunk}
+          adoptedAlgorithm={adoptedAlgorithm}
+          onAdopt={adoptComparison}
+          onClose={() => setComparisons([])}
+        />
+      )}
+
+      {/* Changes against the published plan */}
+      {published && (
+        <ChangeReport
+          baseline={published.allocation}
+          publishedAt={published.at}
+          allocation={allocation}
+          onClearBaseline={() => setPublished(null)}
+        />
+      )}
+
       {/* Room-wise Display */}
       {allocation.length > 0 && (
         <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
-          <h2 className="text-2xl font-semibold mb-6 text-gray-800">Room-wise Seat Distribution</h2>
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-2xl font-semibold text-gray-800">Room-wise Seat Distribution</h2>
+            <button
+              onClick={() => setPrintView('sheets')}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900"
+            >
+              <Printer size={18} />
+              Door &amp; Attendance Sheets
+            </button>
+          </div>
+
+          {/* Manual adjustments: drag chunks by their legend entry between rooms */}
+          <p className="text-sm text-gray-600 mb-3">
+            Drag a section chunk onto another room to move it, or onto Unplaced to take it out. Split a chunk first to move part of it.
+          </p>
+          {allocationWarnings.length > 0 && (
+            <ul className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded-md text-sm text-yellow-900 space-y-1">
+              {allocationWarnings.map((warning, idx) => (
+                <li key={idx} className="flex items-start gap-2">
+                  <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="grid md:grid-cols-2 gap-4 mb-6">
+            <div
+              {...chunkDropProps(UNPLACED_ROOM)}
+              className={`p-3 border-2 border-dashed rounded-lg ${dropTarget === UNPLACED_ROOM ? 'border-red-500 bg-red-50' : 'border-red-200'}`}
+            >
+              <div className="text-sm font-medium text-red-700 mb-2">Unplaced</div>
+              <div className="flex flex-wrap gap-2">
+                {unplacedChunks.length === 0 && <span className="text-xs text-gray-500">Every student has a seat.</span>}
+                {unplacedChunks.map((alloc, idx) => (
+                  <div
+                    key={idx}
+                    draggable
+                    onDragStart={e => handleChunkDragStart(e, alloc)}
+                    className="flex items-center gap-1 px-2 py-1 text-sm bg-red-100 text-red-800 rounded cursor-move"
+                  >
+                    <GripVertical size={14} />
+                    {alloc.branch}-{alloc.section}: {alloc.students}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="p-3 border-2 border-dashed border-gray-200 rounded-lg">
+              <div className="text-sm font-medium text-gray-700 mb-2">Empty rooms</div>
+              <div className="flex flex-wrap gap-2">
+                {emptyRooms.length === 0 && <span className="text-xs text-gray-500">All available rooms are in use.</span>}
+                {emptyRooms.map(room => (
+                  <div
+                    key={room.no}
+                    {...chunkDropProps(room.no)}
+                    className={`px-2 py-1 text-sm border rounded ${dropTarget === room.no ? 'border-blue-500 bg-blue-50' : 'bg-white'}`}
+                  >
+                    {room.no} ({room.capacity})
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
 
-          {roomBlocks.map((block, blockIdx) => {
+          {availableBlocks.map((block, blockIdx) => {
             const blockAllocations = allocation.filter(alloc =>
               block.rooms.some(room => room.no === alloc.roomNo)
             );
@@ -769,22 +1177,53 @@ const ExamSeatingAllocator: React.FC = () => {
 
                     const totalUsed = roomAllocations.reduce((sum, alloc) => sum + alloc.students, 0);
                     const wastedSeats = room.capacity - totalUsed;
+                    // room.capacity excludes blocked seats; the bar spans every physical seat
+                    const blockedCount = room.blockedSeats?.length || 0;
+                    const physicalSeats = room.capacity + blockedCount;
+                    const conflicts = interleaved ? countSeatConflicts(room, roomAllocations) : 0;
 
                     return (
-                      <div key={room.no} className="border rounded-lg p-4 bg-gray-50">
+                      <div
+                        key={room.no}
+                        {...chunkDropProps(room.no)}
+                        className={`border rounded-lg p-4 ${dropTarget === room.no ? 'bg-blue-50 border-blue-400' : 'bg-gray-50'}`}
+                      >
                         <div className="flex justify-between items-center mb-3">
-                          <span className="font-semibold text-gray-800">{room.no}</span>
+                          <span className="font-semibold text-gray-800">
+                            {room.no}
+                            {room.floor !== undefined && (
+                              <span className="ml-2 px-2 py-0.5 bg-gray-200 text-gray-700 text-xs rounded-full">
+                                {room.floor === 0 ? 'Ground floor' : `Floor ${room.floor}`}
+                              </span>
+                            )}
+                            {ROOM_FEATURES.filter(f => (room.features || []).includes(f.key)).map(f => (
+                              <span key={f.key} className="ml-2 px-2 py-0.5 bg-sky-100 text-sky-800 text-xs rounded-full">
+                                {f.label}
+                              </span>
+                            ))}
+                            {wastedSeats < 0 && (
+                              <span className="ml-2 px-2 py-0.5 bg-red-200 text-red-800 text-xs rounded-full">
+                                {-wastedSeats} over capacity
+                              </span>
+                            )}
+                            {conflicts > 0 && (
+                              <span className="ml-2 px-2 py-0.5 bg-red-200 text-red-800 text-xs rounded-full">
+                                {conflicts} seat conflict{conflicts === 1 ? '' : 's'}
+                              </span>
+                            )}
+                          </span>
                           <span className="text-sm text-gray-600">
                             {totalUsed}/{room.capacity} seats ({((totalUsed/room.capacity)*100).toFixed(1)}% filled)
+                            {blockedCount > 0 && `, ${blockedCount} blocked`}
                           </span>
                         </div>
 
                         {/* Progress Bar */}
                         <div className="w-full bg-gray-200 rounded-full h-8 mb-3 relative overflow-hidden">
                           {roomAllocations.map((alloc, idx) => {
-                            const width = (alloc.students / room.capacity) * 100;
+                            const width = (alloc.students / physicalSeats) * 100;
                             const left = roomAllocations.slice(0, idx).reduce((sum, prevAlloc) =>
-                              sum + (prevAlloc.students / room.capacity) * 100, 0
+                              sum + (prevAlloc.students / physicalSeats) * 100, 0
                             );
 
                             return (
@@ -806,38 +1245,108 @@ const ExamSeatingAllocator: React.FC = () => {
                             <div
                               className="absolute h-full bg-gray-400 flex items-center justify-center text-white text-xs"
                               style={{
-                                left: `${(totalUsed / room.capacity) * 100}%`,
-                                width: `${(wastedSeats / room.capacity) * 100}%`
+                                left: `${(totalUsed / physicalSeats) * 100}%`,
+                                width: `${(wastedSeats / physicalSeats) * 100}%`
                               }}
                             >
-                              {((wastedSeats / room.capacity) * 100) > 10 && `Empty (${wastedSeats})`}
+                              {((wastedSeats / physicalSeats) * 100) > 10 && `Empty (${wastedSeats})`}
+                            </div>
+                          )}
+
+                          {/* Blocked seats (dark grey) */}
+                          {blockedCount > 0 && (
+                            <div
+                              className="absolute h-full bg-gray-700 flex items-center justify-center text-white text-xs"
+                              style={{
+                                left: `${(room.capacity / physicalSeats) * 100}%`,
+                                width: `${(blockedCount / physicalSeats) * 100}%`
+                              }}
+                            >
+                              {((blockedCount / physicalSeats) * 100) > 10 && `Blocked (${blockedCount})`}
                             </div>
                           )}
                         </div>
 
                         {/* Legend for this room */}
                         <div className="flex flex-wrap gap-3 text-sm">
-                          {roomAllocations.map((alloc, idx) => (
-                            <div key={idx} className="flex items-center gap-2">
-                              <div className={`w-4 h-4 rounded ${getSectionProgressColor(alloc.branch, alloc.section)}`}></div>
-                              <span>
-                                {alloc.branch}-{alloc.section}: {alloc.students} seats
-                                {alloc.startSeat && ` (${alloc.startSeat}-${alloc.endSeat})`}
-                              </span>
-                              {alloc.partial && (
-                                <span className="px-1 py-0.5 bg-yellow-200 text-yellow-800 text-xs rounded">
-                                  Partial
+                          {roomAllocations.map((alloc, idx) => {
+                            const canMerge = roomAllocations.some(other =>
+                              other !== alloc && other.branch === alloc.branch && other.section === alloc.section
+                            );
+                            return (
+                              <div
+                                key={idx}
+                                draggable
+                                onDragStart={e => handleChunkDragStart(e, alloc)}
+                                className="flex items-center gap-2 cursor-move"
+                                title="Drag to another room"
+                              >
+                                <GripVertical size={14} className="text-gray-400" />
+                                <div className={`w-4 h-4 rounded ${getSectionProgressColor(alloc.branch, alloc.section)}`}></div>
+                                <span>
+                                  {alloc.branch}-{alloc.section}: {alloc.students} seats
+                                  {alloc.startSeat && ` (${formatSeatRange(alloc)})`}
                                 </span>
-                              )}
-                            </div>
-                          ))}
+                                {alloc.partial && (
+                                  <span className="px-1 py-0.5 bg-yellow-200 text-yellow-800 text-xs rounded">
+                                    Partial
+                                  </span>
+                                )}
+                                {alloc.students > 1 && (
+                                  <button onClick={() => promptSplit(alloc)} className="text-gray-500 hover:text-gray-800" title="Split chunk">
+                                    <Scissors size={14} />
+                                  </button>
+                                )}
+                                {canMerge && (
+                                  <button
+                                    onClick={() => applyAllocationEdit(
+                                      mergeChunks(allocation, allocation.indexOf(alloc), sections, availableBlocks),
+                                      `Merged ${alloc.branch}-${alloc.section} in ${alloc.roomNo}`
+                                    )}
+                                    className="text-gray-500 hover:text-gray-800"
+                                    title={`Merge ${alloc.branch}-${alloc.section} chunks in this room`}
+                                  >
+                                    <Merge size={14} />
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })}
                           {wastedSeats > 0 && (
                             <div className="flex items-center gap-2">
                               <div className="w-4 h-4 rounded bg-gray-400"></div>
                               <span className="text-gray-600">Empty: {wastedSeats} seats</span>
                             </div>
                           )}
+                          {blockedCount > 0 && (
+                            <div className="flex items-center gap-2">
+                              <div className="w-4 h-4 rounded bg-gray-700"></div>
+                              <span className="text-gray-600">Blocked: {blockedCount} seats</span>
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Question papers to hand out in this room */}
+                        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                          <span className="font-medium">Question papers:</span>
+                          {countPapers(roomAllocations).map(({ paper, copies }) => (
+                            <span
+                              key={paper}
+                              className={`px-2 py-0.5 rounded-full ${paper === NO_PAPER ? 'bg-gray-200 text-gray-600' : 'bg-indigo-100 text-indigo-800'}`}
+                            >
+                              {paper} × {copies}
+                            </span>
+                          ))}
                         </div>
+
+                        {/* Seat-level chart */}
+                        <SeatGrid
+                          room={room}
+                          allocations={roomAllocations}
+                          getColor={getSectionProgressColor}
+                          blockedSeats={room.blockedSeats}
+                        />
+                        <RoomRollList assignments={seatAssignments.filter(a => a.roomNo === room.no)} />
                       </div>
                     );
                   })}
@@ -848,9 +1357,28 @@ const ExamSeatingAllocator: React.FC = () => {
         </div>
       )}
 
+      {/* Student self-lookup: static export and section QR notices */}
+      {seatAssignments.length > 0 && (
+        <LookupPanel
+          seatAssignments={seatAssignments}
+          settings={lookupSettings}
+          onChange={setLookupSettings}
+          onPrintNotices={() => setPrintView('qrNotices')}
+        />
+      )}
+
+      {/* Invigilation */}
+      <InvigilatorPanel
+        invigilators={invigilators}
+        seatsPerInvigilator={seatsPerInvigilator}
+        slots={buildDutySlots(sessions, sessionResults, allocation, availableBlocks)}
+        onChange={setInvigilators}
+        onSeatsPerInvigilatorChange={setSeatsPerInvigilator}
+      />
+
       {/* Allocation Results */}
       {allocation.length > 0 && (
-        <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
           <h2 className="text-2xl font-semibold mb-6 text-gray-800">Seat Allocation Results</h2>
 
           <div className="space-y-6">
@@ -859,6 +1387,7 @@ const ExamSeatingAllocator: React.FC = () => {
               const totalStudents = sectionAllocations.reduce((sum, alloc) => sum + alloc.students, 0);
               const hasPartial = sectionAllocations.some(alloc => alloc.partial);
               const hasError = sectionAllocations.some(alloc => alloc.error);
+              const blockCount = new Set(sectionAllocations.filter(a => !a.error && a.blockName).map(a => a.blockName)).size;
 
               return (
                 <div key={sectionKey} className={`border-2 rounded-lg p-4 ${getSectionColor(branch, section)}`}>
@@ -867,6 +1396,11 @@ const ExamSeatingAllocator: React.FC = () => {
                       {branch} - Section {section} ({totalStudents} students)
                     </h3>
                     <div className="flex items-center gap-2">
+                      {blockCount > 1 && (
+                        <span className="px-2 py-1 bg-amber-200 text-amber-900 text-xs rounded-full">
+                          Spread over {blockCount} blocks
+                        </span>
+                      )}
                       {hasError && <AlertCircle className="text-red-500" size={20} />}
                       {hasPartial && !hasError && <AlertCircle className="text-yellow-500" size={20} />}
                       {!hasPartial && !hasError && <CheckCircle className="text-green-500" size={20} />}
@@ -893,9 +1427,14 @@ const ExamSeatingAllocator: React.FC = () => {
                                 {alloc.blockName}
                               </span>
                             )}
+                            {alloc.requirements && alloc.requirements.length > 0 && (
+                              <span className={`ml-2 px-2 py-1 text-xs rounded-full ${alloc.error ? 'bg-red-200 text-red-800' : 'bg-sky-100 text-sky-800'}`}>
+                                {alloc.error ? 'Needs' : 'Placed for'}: {describeRequirements(alloc.requirements)}
+                              </span>
+                            )}
                             {!alloc.error && (
                               <div className="text-gray-600 mt-1">
-                                Seats: {alloc.startSeat}-{alloc.endSeat} ({alloc.students} students)
+                                Seats: {formatSeatRange(alloc)} ({alloc.students} students)
                               </div>
                             )}
                           </div>
@@ -925,10 +1464,19 @@ const ExamSeatingAllocator: React.FC = () => {
         </div>
       )}
 
+      <TimetablePanel
+        sessions={sessions}
+        sections={sections}
+        roomBlocks={roomBlocks}
+        results={sessionResults}
+        onChange={updateSessions}
+        onRun={allocateSessions}
+      />
+
       {/* Algorithm Explanation */}
       <div className="max-w-3xl mx-auto mt-10 p-6 bg-blue-50 rounded-lg border border-blue-200">
         <h3 className="text-lg font-semibold mb-2 text-blue-800">How this algorithm works:</h3>
-        <p className="text-blue-900 leading-relaxed">{ALGO_EXPLANATIONS[algorithm]}</p>
+        <p className="text-blue-900 leading-relaxed">{interleaved ? INTERLEAVE_EXPLANATION : ALGO_EXPLANATIONS[algorithm]}</p>
       </div>
     </div>
   );
@@ -0,0 +1,70 @@
+import React from 'react';
+import { History as HistoryIcon, Undo2, Redo2, X } from 'lucide-react';
+import { History, canUndo, canRedo } from '../utils/history';
+
+interface HistorySidebarProps {
+  history: History;
+  onSelect: (index: number) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+}
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({ history, onSelect, onUndo, onRedo, onClose }) => (
+  <aside className="print:hidden fixed top-0 right-0 z-20 h-full w-80 bg-white border-l shadow-xl flex flex-col">
+    <div className="flex items-center justify-between p-4 border-b">
+      <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+        <HistoryIcon size={18} className="text-blue-600" />
+        History
+      </h2>
+      <button onClick={onClose} className="text-gray-500 hover:text-gray-800" title="Close history">
+        <X size={18} />
+      </button>
+    </div>
+    <div className="flex gap-2 p-4 border-b">
+      <button
+        onClick={onUndo}
+        disabled={!canUndo(history)}
+        className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-white"
+        title="Undo (Ctrl+Z)"
+      >
+        <Undo2 size={16} />
+        Undo
+      </button>
+      <button
+        onClick={onRedo}
+        disabled={!canRedo(history)}
+        className="flex items-center gap-1 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-white"
+        title="Redo (Ctrl+Shift+Z or Ctrl+Y)"
+      >
+        <Redo2 size={16} />
+        Redo
+      </button>
+    </div>
+    <ol className="flex-1 overflow-y-auto p-2">
+      {history.steps.length === 0 && <li className="p-2 text-sm text-gray-500">No changes yet.</li>}
+      {history.steps.map((step, idx) => (
+        <li key={idx}>
+          <button
+            onClick={() => onSelect(idx)}
+            className={`w-full text-left px-3 py-2 rounded-md text-sm ${
+              idx === history.current
+                ? 'bg-blue-100 text-blue-900 font-medium'
+                : idx > history.current
+                  ? 'text-gray-400 hover:bg-gray-50'
+                  : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <div>{step.label}</div>
+            <div className="text-xs text-gray-500">{new Date(step.at).toLocaleTimeString()}</div>
+          </button>
+        </li>
+      ))}
+    </ol>
+    <p className="p-4 border-t text-xs text-gray-500">
+      Click a step to go back to it. Undone steps stay listed until you make a new change.
+    </p>
+  </aside>
+);
+
+export default HistorySidebar;
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Upload, ShieldCheck, AlertCircle } from 'lucide-react';
+import { Invigilator, DutySlot } from '../types';
+import { assignInvigilators, parseInvigilatorCsv } from '../utils/invigilation';
+
+interface InvigilatorPanelProps {
+  invigilators: Invigilator[];
+  seatsPerInvigilator: number;
+  slots: DutySlot[];
+  onChange: (invigilators: Invigilator[]) => void;
+  onSeatsPerInvigilatorChange: (seats: number) => void;
+}
+
+const InvigilatorPanel: React.FC<InvigilatorPanelProps> = ({
+  invigilators,
+  seatsPerInvigilator,
+  slots,
+  onChange,
+  onSeatsPerInvigilatorChange,
+}) => {
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const { duties, shortfalls } = assignInvigilators(slots, invigilators, seatsPerInvigilator);
+
+  const addInvigilator = () => {
+    const newId = Math.max(...invigilators.map(i => i.id), 0) + 1;
+    onChange([...invigilators, { id: newId, name: '', department: '', maxDuties: 3, unavailable: [] }]);
+  };
+
+  const updateInvigilator = (id: number, changes: Partial<Invigilator>) => {
+    onChange(invigilators.map(i => (i.id === id ? { ...i, ...changes } : i)));
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const { invigilators: parsed, errors } = parseInvigilatorCsv(text);
+        if (parsed.length > 0) onChange(parsed);
+        setUploadErrors(errors);
+      })
+      .catch(error => setUploadErrors([`Could not read ${file.name}: ${error}`]));
+    e.target.value = '';
+  };
+
+  const dutyFor = (invigilatorId: number, slotKey: string) =>
+    duties.find(d => d.invigilatorId === invigilatorId && d.slotKey === slotKey);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <h2 className="text-2xl font-semibold mb-4 text-gray-800 flex items-center gap-2">
+        <ShieldCheck className="text-indigo-600" />
+        Invigilation Duties
+      </h2>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4">
+        <div>
+          <label htmlFor="seats-per-invigilator" className="block mb-1 text-sm font-medium text-gray-700">Seats per invigilator:</label>
+          <input
+            id="seats-per-invigilator"
+            type="number"
+            min={1}
+            className="px-3 py-1.5 border rounded-md w-28"
+            value={seatsPerInvigilator}
+            onChange={e => onSeatsPerInvigilatorChange(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </div>
+        <label className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50 cursor-pointer">
+          <Upload size={16} />
+          Upload invigilator CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleUpload} className="hidden" />
+        </label>
+        <span className="text-xs text-gray-500">Columns: Name, Department, Max Duties, Unavailable Slots (e.g. "2026-11-02 Morning; 2026-11-03 Afternoon")</span>
+      </div>
+
+      {uploadErrors.length > 0 && (
+        <ul className="mb-4 p-3 bg-red-50 border border-red-300 rounded-md text-sm text-red-800">
+          {uploadErrors.map((err, idx) => <li key={idx}>{err}</li>)}
+        </ul>
+      )}
+
+      <div className="space-y-2 mb-3">
+        {invigilators.map(inv => (
+          <div key={inv.id} className="flex flex-wrap gap-3 items-center p-2 bg-gray-50 rounded-lg">
+            <input
+              type="text"
+              placeholder="Name"
+              value={inv.name}
+              onChange={e => updateInvigilator(inv.id, { name: e.target.value })}
+              className="px-3 py-1.5 border rounded-md w-48"
+            />
+            <input
+              type="text"
+              placeholder="Department (e.g., CSE)"
+              value={inv.department}
+              onChange={e => updateInvigilator(inv.id, { department: e.target.value })}
+              className="px-3 py-1.5 border rounded-md w-40"
+            />
+            <input
+              type="number"
+              min={0}
+              title="Maximum duties"
+              value={inv.maxDuties}
+              onChange={e => updateInvigilator(inv.id, { maxDuties: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="px-3 py-1.5 border rounded-md w-20"
+            />
+            <input
+              type="text"
+              placeholder="Unavailable slots, separated by ;"
+              value={inv.unavailable.join('; ')}
+              onChange={e => updateInvigilator(inv.id, { unavailable: e.target.value.split(';').map(u => u.trim()).filter(Boolean) })}
+              className="px-3 py-1.5 border rounded-md flex-1 min-w-[12rem]"
+            />
+            <button
+              onClick={() => onChange(invigilators.filter(i => i.id !== inv.id))}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-md"
+              title="Remove invigilator"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={addInvigilator}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+      >
+        <Plus size={18} />
+        Add Invigilator
+      </button>
+
+      {slots.length > 0 && invigilators.length > 0 && (
+        <>
+          <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-700">Duty chart</h3>
+          {shortfalls.length > 0 && (
+            <ul className="mb-3 p-3 bg-red-50 border border-red-300 rounded-md text-sm text-red-800 space-y-1">
+              {shortfalls.map((msg, idx) => (
+                <li key={idx} className="flex items-start gap-2">
+                  <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                  {msg}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="overflow-x-auto">
+            <table className="text-sm border-collapse">
+              <thead>
+                <tr>
+                  <th className="border px-2 py-1 bg-gray-100 text-left">Invigilator</th>
+                  <th className="border px-2 py-1 bg-gray-100 text-left">Dept</th>
+                  {slots.map(slot => (
+                    <th key={slot.key} className="border px-2 py-1 bg-gray-100 whitespace-nowrap">{slot.label}</th>
+                  ))}
+                  <th className="border px-2 py-1 bg-gray-100">Duties</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invigilators.filter(inv => inv.name.trim()).map(inv => {
+                  const count = duties.filter(d => d.invigilatorId === inv.id).length;
+                  return (
+                    <tr key={inv.id}>
+                      <td className="border px-2 py-1 whitespace-nowrap">{inv.name}</td>
+                      <td className="border px-2 py-1">{inv.department}</td>
+                      {slots.map(slot => {
+                        const duty = dutyFor(inv.id, slot.key);
+                        return (
+                          <td
+                            key={slot.key}
+                            className={`border px-2 py-1 whitespace-nowrap ${duty ? (duty.ownDepartment ? 'bg-yellow-100' : 'bg-indigo-50') : ''}`}
+                            title={duty?.ownDepartment ? 'Own department seated in this room: no other invigilator was free' : undefined}
+                          >
+                            {duty?.roomNo || ''}
+                          </td>
+                        );
+                      })}
+                      <td className="border px-2 py-1 text-center">{count}/{inv.maxDuties}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-700">Staff by room</h3>
+          <div className="grid md:grid-cols-2 gap-3 text-sm">
+            {slots.map(slot => (
+              <div key={slot.key} className="border rounded-md p-3">
+                <div className="font-medium text-gray-800 mb-2">{slot.label}</div>
+                {slot.rooms.map(room => {
+                  const names = duties
+                    .filter(d => d.slotKey === slot.key && d.roomNo === room.roomNo)
+                    .map(d => invigilators.find(i => i.id === d.invigilatorId)?.name)
+                    .filter(Boolean);
+                  return (
+                    <div key={room.roomNo} className="flex justify-between border-b border-gray-100 py-1">
+                      <span>{room.roomNo} <span className="text-gray-500">({room.departments.join(', ')})</span></span>
+                      <span className={names.length === 0 ? 'text-red-600' : ''}>{names.length > 0 ? names.join(', ') : 'Unstaffed'}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default InvigilatorPanel;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { MapPin, Download, Printer, ExternalLink } from 'lucide-react';
+import { SeatAssignment } from '../types';
+import { buildLookupData, buildLookupLink, exportLookupJson, LOOKUP_FILE_NAME } from '../utils/lookup';
+
+// Where the lookup page and its data are hosted, and the heading shown on it
+export interface LookupSettings {
+  title: string;
+  pageUrl: string;
+  dataUrl: string;
+}
+
+export const defaultLookupSettings = (): LookupSettings => ({
+  title: 'Exam seating',
+  pageUrl: window.location.href.split('#')[0],
+  dataUrl: LOOKUP_FILE_NAME,
+});
+
+interface LookupPanelProps {
+  seatAssignments: SeatAssignment[];
+  settings: LookupSettings;
+  onChange: (settings: LookupSettings) => void;
+  onPrintNotices: () => void;
+}
+
+const LookupPanel: React.FC<LookupPanelProps> = ({ seatAssignments, settings, onChange, onPrintNotices }) => {
+  const sample = seatAssignments[0];
+  const sampleLink = sample
+    ? buildLookupLink(settings.pageUrl, { branch: sample.student.branch, section: sample.student.section, rollNo: sample.student.rollNo }, settings.dataUrl)
+    : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <h2 className="text-2xl font-semibold mb-2 text-gray-800 flex items-center gap-2">
+        <MapPin className="text-blue-600" />
+        Student Seat Lookup
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Export the seats of the current plan as a static file and host it next to this app (for example in its public folder).
+        Students open the lookup page from the QR code on their section's notice and enter their roll number.
+      </p>
+      <div className="grid md:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label htmlFor="lookup-title" className="block mb-1 text-sm font-medium text-gray-700">Heading on the lookup page:</label>
+          <input
+            id="lookup-title"
+            value={settings.title}
+            onChange={e => onChange({ ...settings, title: e.target.value })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div>
+          <label htmlFor="lookup-page-url" className="block mb-1 text-sm font-medium text-gray-700">Lookup page address:</label>
+          <input
+            id="lookup-page-url"
+            value={settings.pageUrl}
+            onChange={e => onChange({ ...settings, pageUrl: e.target.value })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <div>
+          <label htmlFor="lookup-data-url" className="block mb-1 text-sm font-medium text-gray-700">Lookup file address:</label>
+          <input
+            id="lookup-data-url"
+            value={settings.dataUrl}
+            onChange={e => onChange({ ...settings, dataUrl: e.target.value || LOOKUP_FILE_NAME })}
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={() => exportLookupJson(buildLookupData(seatAssignments, settings.title))}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+        >
+          <Download size={16} />
+          Lookup data (.json)
+        </button>
+        <button
+          onClick={onPrintNotices}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-800 text-white rounded-md hover:bg-gray-900"
+        >
+          <Printer size={16} />
+          Section QR Notices
+        </button>
+        {sampleLink && (
+          <a href={sampleLink} target="_blank" rel="noreferrer" className="flex items-center gap-1 text-sm text-blue-700 hover:underline">
+            <ExternalLink size={14} />
+            Try a lookup for {sample.student.rollNo}
+          </a>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        {seatAssignments.length} student seats. Only roll numbers and seats go into the file, not names.
+        Re-export and replace the hosted file whenever the plan changes; the QR codes stay the same.
+      </p>
+    </div>
+  );
+};
+
+export default LookupPanel;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Save, Upload, Download, Copy, Trash2, FolderOpen, AlertCircle } from 'lucide-react';
+import { SavedPlan } from '../types';
+import { loadStoredPlans, storePlans, parsePlanJson, planToJson, newPlanId } from '../utils/plans';
+import { downloadFile } from '../utils/export';
+
+interface PlansPanelProps {
+  createPlan: (name: string) => SavedPlan;
+  onOpen: (plan: SavedPlan) => void;
+}
+
+const PlansPanel: React.FC<PlansPanelProps> = ({ createPlan, onOpen }) => {
+  const [plans, setPlans] = useState<SavedPlan[]>(loadStoredPlans);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const updatePlans = (updated: SavedPlan[]) => {
+    try {
+      storePlans(updated);
+      setPlans(updated);
+    } catch (error) {
+      setMessage({ error: true, text: `Could not save to browser storage: ${error}` });
+    }
+  };
+
+  // Saving under an existing name replaces that plan
+  const savePlan = () => {
+    const planName = name.trim() || `Plan ${new Date().toLocaleString()}`;
+    const existing = plans.find(p => p.name === planName);
+    if (existing && !window.confirm(`Replace the saved plan "${planName}"?`)) return;
+    const plan = { ...createPlan(planName), id: existing ? existing.id : newPlanId() };
+    updatePlans(existing ? plans.map(p => (p.id === existing.id ? plan : p)) : [plan, ...plans]);
+    setName('');
+    setMessage({ error: false, text: `Saved "${planName}".` });
+  };
+
+  const duplicatePlan = (plan: SavedPlan) => {
+    const copy = { ...plan, id: newPlanId(), name: `${plan.name} (copy)`, savedAt: new Date().toISOString() };
+    updatePlans([copy, ...plans]);
+  };
+
+  const deletePlan = (plan: SavedPlan) => {
+    if (!window.confirm(`Delete the saved plan "${plan.name}"?`)) return;
+    updatePlans(plans.filter(p => p.id !== plan.id));
+  };
+
+  const openPlan = (plan: SavedPlan) => {
+    onOpen(plan);
+    setMessage({ error: false, text: `Opened "${plan.name}".` });
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        const plan = { ...parsePlanJson(text), id: newPlanId() };
+        updatePlans([plan, ...plans]);
+        openPlan(plan);
+      })
+      .catch(error => setMessage({ error: true, text: `Could not import ${file.name}: ${error instanceof Error ? error.message : error}` }));
+    e.target.value = '';
+  };
+
+  const exportPlan = (plan: SavedPlan) => {
+    const filename = `${plan.name.replace(/[^\w-]+/g, '_')}.seating-plan.json`;
+    downloadFile(filename, planToJson(plan), 'application/json');
+  };
+
+  return (
+    <details className="mb-6 border rounded-lg">
+      <summary className="cursor-pointer p-4 font-semibold text-gray-800">
+        Saved Plans: {plans.length}
+      </summary>
+      <div className="p-4 pt-0">
+        <p className="text-sm text-gray-600 mb-4">
+          A plan stores the sections, room data and availability, algorithm settings and the current allocation.
+          Plans are kept in this browser; export one as JSON to move it to another machine.
+        </p>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <input
+            type="text"
+            placeholder="Plan name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') savePlan(); }}
+            className="px-3 py-1.5 border rounded-md w-64"
+          />
+          <button
+            onClick={savePlan}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            <Save size={16} />
+            Save current plan
+          </button>
+          <label className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50 cursor-pointer">
+            <Upload size={16} />
+            Import plan JSON
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+
+        {message && (
+          <div className={`mb-4 p-3 rounded-md text-sm flex items-start gap-2 ${message.error ? 'bg-red-50 border border-red-300 text-red-800' : 'bg-green-50 border border-green-300 text-green-800'}`}>
+            {message.error && <AlertCircle size={16} className="mt-0.5 shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        {plans.length === 0 ? (
+          <div className="text-sm text-gray-500 italic">No saved plans yet.</div>
+        ) : (
+          <div className="space-y-2">
+            {plans.map(plan => {
+              const students = plan.sections.reduce((sum, s) => sum + (s.students || 0), 0);
+              return (
+                <div key={plan.id} className="flex flex-wrap items-center gap-3 p-2 bg-gray-50 rounded-lg text-sm">
+                  <div className="flex-1 min-w-[12rem]">
+                    <div className="font-medium text-gray-800">{plan.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {new Date(plan.savedAt).toLocaleString()} · {plan.sections.length} sections, {students} students
+                      {plan.allocation.length > 0 ? ' · allocated' : ' · not allocated'}
+                    </div>
+                  </div>
+                  <button onClick={() => openPlan(plan)} className="p-2 text-blue-700 hover:bg-blue-50 rounded-md" title="Open plan">
+                    <FolderOpen size={18} />
+                  </button>
+                  <button onClick={() => duplicatePlan(plan)} className="p-2 text-gray-700 hover:bg-gray-100 rounded-md" title="Duplicate plan">
+                    <Copy size={18} />
+                  </button>
+                  <button onClick={() => exportPlan(plan)} className="p-2 text-gray-700 hover:bg-gray-100 rounded-md" title="Export as JSON">
+                    <Download size={18} />
+                  </button>
+                  <button onClick={() => deletePlan(plan)} className="p-2 text-red-600 hover:bg-red-50 rounded-md" title="Delete plan">
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default PlansPanel;
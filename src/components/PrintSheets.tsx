@@ -0,0 +1,161 @@
+import React from 'react';
+import { Printer, ArrowLeft } from 'lucide-react';
+import { RoomBlock, Room, Allocation, SeatAssignment, SeatPosition } from '../types';
+import { getAllocationSeats, formatSeatRange } from '../utils/seating';
+import { countPapers } from '../utils/papers';
+
+interface PrintSheetsProps {
+  roomBlocks: RoomBlock[];
+  allocation: Allocation[];
+  seatAssignments: SeatAssignment[];
+  onClose: () => void;
+}
+
+interface AttendanceLine {
+  seat: number;
+  position: SeatPosition | null;
+  sectionLabel: string;
+  rollNo: string;
+  name: string;
+}
+
+// One line per seat; roll number and name are filled in when roster data exists for that seat
+function buildAttendanceLines(room: Room, roomAllocations: Allocation[], assignments: SeatAssignment[]): AttendanceLine[] {
+  const bySeat: Record<number, SeatAssignment> = {};
+  assignments.forEach(a => { bySeat[a.seat] = a; });
+  const lines: AttendanceLine[] = [];
+  for (const alloc of roomAllocations) {
+    const positions = getAllocationSeats(room, alloc);
+    const seatNumbers = alloc.seats
+      || Array.from({ length: alloc.students }, (_, i) => (alloc.startSeat || 1) + i);
+    seatNumbers.forEach(seat => {
+      const assigned = bySeat[seat];
+      lines.push({
+        seat,
+        position: positions.find(p => p.seat === seat) || null,
+        sectionLabel: `${alloc.branch}-${alloc.section}`,
+        rollNo: assigned ? assigned.student.rollNo : '',
+        name: assigned ? assigned.student.name : '',
+      });
+    });
+  }
+  return lines.sort((a, b) => a.seat - b.seat);
+}
+
+const PrintSheets: React.FC<PrintSheetsProps> = ({ roomBlocks, allocation, seatAssignments, onClose }) => {
+  const rooms = roomBlocks.flatMap(block =>
+    block.rooms
+      .map(room => ({ room, blockName: block.name, allocations: allocation.filter(a => !a.error && a.roomNo === room.no) }))
+      .filter(entry => entry.allocations.length > 0)
+  );
+
+  return (
+    <div className="bg-white min-h-screen">
+      <div className="print:hidden sticky top-0 z-10 flex items-center gap-3 p-4 bg-gray-100 border-b">
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-4 py-2 bg-white border rounded-md hover:bg-gray-50"
+        >
+          <ArrowLeft size={18} />
+          Back
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Printer size={18} />
+          Print / Save as PDF
+        </button>
+        <span className="text-sm text-gray-600">
+          {rooms.length} room(s): one door sheet and one attendance sheet each.
+        </span>
+      </div>
+
+      {rooms.map(({ room, blockName, allocations }) => {
+        const totalUsed = allocations.reduce((sum, a) => sum + a.students, 0);
+        const lines = buildAttendanceLines(room, allocations, seatAssignments.filter(a => a.roomNo === room.no));
+        const hasRoster = lines.some(l => l.rollNo);
+
+        return (
+          <React.Fragment key={room.no}>
+            {/* Door sheet */}
+            <section className="print-sheet p-10 break-after-page">
+              <div className="text-center border-4 border-gray-800 p-8">
+                <div className="text-xl text-gray-600">{blockName}</div>
+                <div className="text-6xl font-bold my-4">Room {room.no}</div>
+                <div className="text-lg text-gray-700">{totalUsed} candidates / {room.capacity} seats</div>
+                <div className="text-base text-gray-700 mt-2">
+                  Question papers: {countPapers(allocations).map(p => `${p.paper} × ${p.copies}`).join(', ')}
+                </div>
+              </div>
+              <table className="w-full mt-8 text-2xl border-collapse">
+                <thead>
+                  <tr className="border-b-2 border-gray-800 text-left">
+                    <th className="py-3">Section</th>
+                    <th className="py-3">Seats</th>
+                    <th className="py-3 text-right">Candidates</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {allocations.map((alloc, idx) => (
+                    <tr key={idx} className="border-b border-gray-400">
+                      <td className="py-3 font-semibold">{alloc.branch}-{alloc.section}</td>
+                      <td className="py-3">{formatSeatRange(alloc)}</td>
+                      <td className="py-3 text-right">{alloc.students}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {/* Attendance sheet */}
+            <section className="print-sheet p-10 break-after-page">
+              <div className="flex justify-between items-end mb-4 border-b-2 border-gray-800 pb-2">
+                <div>
+                  <div className="text-2xl font-bold">Attendance Sheet: Room {room.no}</div>
+                  <div className="text-gray-700">{blockName}</div>
+                </div>
+                <div className="text-right text-sm text-gray-700">
+                  <div>Date: ____________ Session: ________</div>
+                  <div className="mt-1">Subject / Paper: ______________________</div>
+                </div>
+              </div>
+              <table className="w-full text-sm border-collapse">
+                <thead>
+                  <tr className="text-left">
+                    <th className="border border-gray-600 px-2 py-1 w-12">Seat</th>
+                    <th className="border border-gray-600 px-2 py-1 w-20">Row/Bench</th>
+                    <th className="border border-gray-600 px-2 py-1 w-20">Section</th>
+                    <th className="border border-gray-600 px-2 py-1 w-32">Roll No</th>
+                    {hasRoster && <th className="border border-gray-600 px-2 py-1">Name</th>}
+                    <th className="border border-gray-600 px-2 py-1 w-32">Answer Sheet No</th>
+                    <th className="border border-gray-600 px-2 py-1 w-40">Signature</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map(line => (
+                    <tr key={line.seat} className="h-8">
+                      <td className="border border-gray-600 px-2">{line.seat}</td>
+                      <td className="border border-gray-600 px-2">{line.position ? `R${line.position.row}/B${line.position.bench}` : ''}</td>
+                      <td className="border border-gray-600 px-2">{line.sectionLabel}</td>
+                      <td className="border border-gray-600 px-2 font-mono">{line.rollNo}</td>
+                      {hasRoster && <td className="border border-gray-600 px-2">{line.name}</td>}
+                      <td className="border border-gray-600 px-2"></td>
+                      <td className="border border-gray-600 px-2"></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex justify-between mt-10 text-sm">
+                <div>Present: ______ Absent: ______</div>
+                <div>Invigilator signature: ______________________</div>
+              </div>
+            </section>
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PrintSheets;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { encodeQr } from '../utils/qrcode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+const QUIET_ZONE = 4;
+
+// QR code drawn as one SVG path, with the quiet zone scanners need around it
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 160 }) => {
+  const modules = encodeQr(value);
+  const extent = modules.length + QUIET_ZONE * 2;
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${extent} ${extent}`} shapeRendering="crispEdges" role="img" aria-label={value}>
+      <rect width={extent} height={extent} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
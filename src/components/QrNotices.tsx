@@ -0,0 +1,69 @@
+import React from 'react';
+import { Printer, ArrowLeft } from 'lucide-react';
+import { SeatAssignment } from '../types';
+import { buildLookupLink } from '../utils/lookup';
+import { LookupSettings } from './LookupPanel';
+import QrCode from './QrCode';
+
+interface QrNoticesProps {
+  seatAssignments: SeatAssignment[];
+  settings: LookupSettings;
+  onClose: () => void;
+}
+
+// One notice per section for the notice boards: its QR code opens the lookup page with the
+// branch and section filled in, so students only type their roll number
+const QrNotices: React.FC<QrNoticesProps> = ({ seatAssignments, settings, onClose }) => {
+  const sections: { branch: string; section: string; students: number; rooms: string[] }[] = [];
+  for (const a of seatAssignments) {
+    let entry = sections.find(s => s.branch === a.student.branch && s.section === a.student.section);
+    if (!entry) {
+      entry = { branch: a.student.branch, section: a.student.section, students: 0, rooms: [] };
+      sections.push(entry);
+    }
+    entry.students++;
+    if (!entry.rooms.includes(a.roomNo)) entry.rooms.push(a.roomNo);
+  }
+
+  return (
+    <div className="bg-white min-h-screen">
+      <div className="print:hidden sticky top-0 z-10 flex items-center gap-3 p-4 bg-gray-100 border-b">
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 px-4 py-2 bg-white border rounded-md hover:bg-gray-50"
+        >
+          <ArrowLeft size={18} />
+          Back
+        </button>
+        <button
+          onClick={() => window.print()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Printer size={18} />
+          Print / Save as PDF
+        </button>
+        <span className="text-sm text-gray-600">{sections.length} section notice(s), one per page.</span>
+      </div>
+
+      {sections.map(s => {
+        const link = buildLookupLink(settings.pageUrl, { branch: s.branch, section: s.section }, settings.dataUrl);
+        return (
+          <section key={`${s.branch}-${s.section}`} className="print-sheet p-10 break-after-page text-center">
+            <div className="text-xl text-gray-600">{settings.title}</div>
+            <div className="text-6xl font-bold my-6">{s.branch}-{s.section}</div>
+            <div className="text-2xl text-gray-800 mb-8">Scan to find your room and seat</div>
+            <div className="flex justify-center">
+              <QrCode value={link} size={320} />
+            </div>
+            <div className="mt-6 text-sm text-gray-600 break-all">{link}</div>
+            <div className="mt-8 text-lg text-gray-700">
+              {s.students} students in room(s) {s.rooms.join(', ')}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QrNotices;
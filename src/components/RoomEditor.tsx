@@ -0,0 +1,273 @@
+import React from 'react';
+import { Plus, Trash2, Upload, Download, AlertCircle, ChevronUp, ChevronDown } from 'lucide-react';
+import { Room, RoomBlock, RoomIssue, RoomFeature } from '../types';
+import { MAX_ROWS, moveItem } from '../utils/rooms';
+import { ROOM_FEATURES } from '../utils/requirements';
+
+interface RoomEditorProps {
+  roomBlocks: RoomBlock[];
+  issues: RoomIssue[];
+  onChange: (roomBlocks: RoomBlock[]) => void;
+  onUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onExport: () => void;
+}
+
+const RoomEditor: React.FC<RoomEditorProps> = ({ roomBlocks, issues, onChange, onUpload, onExport }) => {
+  const totalRooms = roomBlocks.reduce((sum, b) => sum + b.rooms.length, 0);
+  const totalSeats = roomBlocks.reduce((sum, b) => sum + b.rooms.reduce((s, r) => s + r.capacity, 0), 0);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  const updateBlock = (blockIdx: number, block: RoomBlock) => {
+    onChange(roomBlocks.map((b, i) => (i === blockIdx ? block : b)));
+  };
+
+  const updateRoom = (blockIdx: number, roomIdx: number, room: Room) => {
+    const block = roomBlocks[blockIdx];
+    updateBlock(blockIdx, { ...block, rooms: block.rooms.map((r, i) => (i === roomIdx ? room : r)) });
+  };
+
+  // Editing a row count keeps Total Count in step with the row layout
+  const updateRow = (blockIdx: number, roomIdx: number, rowIdx: number, value: string) => {
+    const room = roomBlocks[blockIdx].rooms[roomIdx];
+    const benches = Array.from({ length: MAX_ROWS }, (_, j) => (j < room.rows.length ? room.rows[j] : 0));
+    benches[rowIdx] = Math.max(0, parseInt(value) || 0);
+    // Rows are stored front to back without gaps, so trailing empty rows are dropped
+    let last = benches.length;
+    while (last > 0 && benches[last - 1] === 0) last--;
+    const rows = benches.slice(0, last);
+    updateRoom(blockIdx, roomIdx, { ...room, rows, capacity: rows.reduce((sum, n) => sum + n, 0) });
+  };
+
+  const addRoom = (blockIdx: number) => {
+    const block = roomBlocks[blockIdx];
+    updateBlock(blockIdx, { ...block, rooms: [...block.rooms, { no: '', capacity: 32, rows: [8, 8, 8, 8] }] });
+  };
+
+  const removeRoom = (blockIdx: number, roomIdx: number) => {
+    const block = roomBlocks[blockIdx];
+    updateBlock(blockIdx, { ...block, rooms: block.rooms.filter((_, i) => i !== roomIdx) });
+  };
+
+  const addBlock = () => {
+    onChange([...roomBlocks, { name: 'New Block', rooms: [] }]);
+  };
+
+  const removeBlock = (blockIdx: number) => {
+    onChange(roomBlocks.filter((_, i) => i !== blockIdx));
+  };
+
+  const toggleFeature = (blockIdx: number, roomIdx: number, feature: RoomFeature) => {
+    const room = roomBlocks[blockIdx].rooms[roomIdx];
+    const current = room.features || [];
+    const features = current.includes(feature) ? current.filter(f => f !== feature) : [...current, feature];
+    updateRoom(blockIdx, roomIdx, { ...room, features: features.length > 0 ? features : undefined });
+  };
+
+  const moveRoom = (blockIdx: number, roomIdx: number, direction: -1 | 1) => {
+    const block = roomBlocks[blockIdx];
+    updateBlock(blockIdx, { ...block, rooms: moveItem(block.rooms, roomIdx, direction) });
+  };
+
+  return (
+    <details className="mb-6 border rounded-lg">
+      <summary className="cursor-pointer p-4 font-semibold text-gray-800 flex items-center gap-2">
+        Room Inventory: {roomBlocks.length} blocks, {totalRooms} rooms, {totalSeats} seats
+        {errorCount > 0 && (
+          <span className="px-2 py-0.5 bg-red-200 text-red-800 text-xs rounded-full">{errorCount} error(s)</span>
+        )}
+      </summary>
+
+      <div className="p-4 pt-0">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50 cursor-pointer">
+            <Upload size={16} />
+            Upload room CSV
+            <input type="file" accept=".csv,text/csv" onChange={onUpload} className="hidden" />
+          </label>
+          <button
+            onClick={onExport}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+          >
+            <Download size={16} />
+            Export room CSV
+          </button>
+          <button
+            onClick={addBlock}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50"
+          >
+            <Plus size={16} />
+            Add block
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Blocks and rooms are listed in priority order: allocation fills them top to bottom when
+          "Fill rooms in block priority order" is on. Use the arrows to reorder; exported CSVs keep this order.
+        </p>
+
+        {issues.length > 0 && (
+          <ul className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm space-y-1 max-h-48 overflow-y-auto">
+            {issues.map((issue, idx) => (
+              <li key={idx} className={`flex items-start gap-2 ${issue.severity === 'error' ? 'text-red-800' : 'text-yellow-800'}`}>
+                <AlertCircle size={14} className="mt-0.5 shrink-0" />
+                <span>
+                  {issue.line !== undefined && `Line ${issue.line}: `}
+                  {issue.roomNo && <strong>{issue.roomNo}: </strong>}
+                  {issue.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {roomBlocks.map((block, blockIdx) => (
+          <div key={blockIdx} className="mb-4 border rounded-md p-3 bg-gray-50">
+            <div className="flex items-center gap-3 mb-2">
+              <span className="text-sm text-gray-500 w-6 text-right">{blockIdx + 1}.</span>
+              <div className="flex flex-col">
+                <button
+                  onClick={() => onChange(moveItem(roomBlocks, blockIdx, -1))}
+                  disabled={blockIdx === 0}
+                  className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  title="Raise block priority"
+                >
+                  <ChevronUp size={14} />
+                </button>
+                <button
+                  onClick={() => onChange(moveItem(roomBlocks, blockIdx, 1))}
+                  disabled={blockIdx === roomBlocks.length - 1}
+                  className="text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                  title="Lower block priority"
+                >
+                  <ChevronDown size={14} />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={block.name}
+                onChange={e => updateBlock(blockIdx, { ...block, name: e.target.value })}
+                className="px-2 py-1 border rounded-md font-semibold w-48"
+              />
+              <button
+                onClick={() => addRoom(blockIdx)}
+                className="flex items-center gap-1 text-sm text-blue-700 hover:underline"
+              >
+                <Plus size={14} />
+                Add room
+              </button>
+              <button
+                onClick={() => removeBlock(blockIdx)}
+                className="p-1 text-red-600 hover:bg-red-50 rounded-md ml-auto"
+                title="Remove block"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr className="text-gray-600 text-left">
+                    <th className="pr-2 font-medium">Room No</th>
+                    {Array.from({ length: MAX_ROWS }, (_, j) => (
+                      <th key={j} className="px-1 font-medium">R{j + 1}</th>
+                    ))}
+                    <th className="px-1 font-medium">Total</th>
+                    <th className="px-1 font-medium" title="0 is the ground floor">Floor</th>
+                    {ROOM_FEATURES.map(f => (
+                      <th key={f.key} className="px-1 font-medium whitespace-nowrap" title={f.label}>{f.short}</th>
+                    ))}
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rooms.map((room, roomIdx) => (
+                    <tr key={roomIdx}>
+                      <td className="pr-2 py-0.5">
+                        <input
+                          type="text"
+                          value={room.no}
+                          onChange={e => updateRoom(blockIdx, roomIdx, { ...room, no: e.target.value.trim() })}
+                          className="px-2 py-0.5 border rounded w-24"
+                        />
+                      </td>
+                      {Array.from({ length: MAX_ROWS }, (_, j) => (
+                        <td key={j} className="px-1 py-0.5">
+                          <input
+                            type="number"
+                            min={0}
+                            value={j < room.rows.length ? room.rows[j] : ''}
+                            placeholder="x"
+                            onChange={e => updateRow(blockIdx, roomIdx, j, e.target.value)}
+                            className="px-1 py-0.5 border rounded w-12"
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1 py-0.5">
+                        <input
+                          type="number"
+                          min={1}
+                          value={room.capacity || ''}
+                          onChange={e => updateRoom(blockIdx, roomIdx, { ...room, capacity: parseInt(e.target.value) || 0 })}
+                          className="px-1 py-0.5 border rounded w-16"
+                        />
+                      </td>
+                      <td className="px-1 py-0.5">
+                        <input
+                          type="number"
+                          value={room.floor ?? ''}
+                          placeholder="-"
+                          onChange={e => updateRoom(blockIdx, roomIdx, {
+                            ...room,
+                            floor: e.target.value === '' ? undefined : parseInt(e.target.value) || 0,
+                          })}
+                          className="px-1 py-0.5 border rounded w-12"
+                        />
+                      </td>
+                      {ROOM_FEATURES.map(f => (
+                        <td key={f.key} className="px-1 py-0.5 text-center">
+                          <input
+                            type="checkbox"
+                            checked={(room.features || []).includes(f.key)}
+                            onChange={() => toggleFeature(blockIdx, roomIdx, f.key)}
+                            title={f.label}
+                          />
+                        </td>
+                      ))}
+                      <td className="py-0.5 whitespace-nowrap">
+                        <button
+                          onClick={() => moveRoom(blockIdx, roomIdx, -1)}
+                          disabled={roomIdx === 0}
+                          className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          title="Move room up"
+                        >
+                          <ChevronUp size={14} />
+                        </button>
+                        <button
+                          onClick={() => moveRoom(blockIdx, roomIdx, 1)}
+                          disabled={roomIdx === block.rooms.length - 1}
+                          className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                          title="Move room down"
+                        >
+                          <ChevronDown size={14} />
+                        </button>
+                        <button
+                          onClick={() => removeRoom(blockIdx, roomIdx)}
+                          className="p-1 text-red-600 hover:bg-red-50 rounded-md"
+                          title="Remove room"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+};
+
+export default RoomEditor;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SeatAssignment } from '../types';
+
+interface RoomRollListProps {
+  assignments: SeatAssignment[];
+}
+
+const RoomRollList: React.FC<RoomRollListProps> = ({ assignments }) => {
+  if (assignments.length === 0) return null;
+  const sorted = [...assignments].sort((a, b) => a.seat - b.seat);
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-blue-700 font-medium">
+        Roll numbers by seat ({assignments.length})
+      </summary>
+      <table className="mt-2 w-full text-left border-collapse">
+        <thead>
+          <tr className="text-gray-600 border-b">
+            <th className="py-1 pr-3">Seat</th>
+            <th className="py-1 pr-3">Row / Bench</th>
+            <th className="py-1 pr-3">Roll No</th>
+            <th className="py-1 pr-3">Name</th>
+            <th className="py-1">Section</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map(a => (
+            <tr key={a.student.rollNo} className="border-b border-gray-100">
+              <td className="py-1 pr-3">{a.seat}</td>
+              <td className="py-1 pr-3">{a.position ? `R${a.position.row} / B${a.position.bench}` : '-'}</td>
+              <td className="py-1 pr-3 font-mono">{a.student.rollNo}</td>
+              <td className="py-1 pr-3">{a.student.name}</td>
+              <td className="py-1">{a.student.branch}-{a.student.section}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
+
+export default RoomRollList;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+import { AllocationProgress } from '../utils/allocationJobs';
+
+interface RunProgressProps {
+  label: string;
+  progress: AllocationProgress;
+  onCancel: () => void;
+}
+
+// Floating status of the allocation running in the background worker. Once the job reports steps
+// (algorithms, sessions or students seated) it shows a bar; until then the bar just pulses.
+const RunProgress: React.FC<RunProgressProps> = ({ label, progress, onCancel }) => {
+  const stepped = progress.total > 1;
+  const percent = stepped ? Math.round((progress.done / progress.total) * 100) : 100;
+
+  return (
+    <div className="print:hidden fixed bottom-4 left-1/2 -translate-x-1/2 z-30 w-96 max-w-[90vw] bg-white border rounded-lg shadow-xl p-4">
+      <div className="flex items-center gap-3">
+        <Loader2 size={18} className="text-blue-600 animate-spin shrink-0" />
+        <div className="flex-1 text-sm text-gray-800">
+          {label}
+          {stepped && <span className="text-gray-500"> ({progress.done} of {progress.total}{progress.unit ? ` ${progress.unit}` : ''})</span>}
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50"
+        >
+          <X size={14} />
+          Cancel
+        </button>
+      </div>
+      <div className="mt-3 h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full bg-blue-600 transition-all ${stepped ? '' : 'animate-pulse'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RunProgress;
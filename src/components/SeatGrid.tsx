@@ -0,0 +1,65 @@
+import React from 'react';
+import { Room, Allocation } from '../types';
+import { buildSeatGrid } from '../utils/seating';
+
+interface SeatGridProps {
+  room: Room;
+  allocations: Allocation[];
+  getColor: (branch: string, section: string) => string;
+  blockedSeats?: number[];
+  onSeatClick?: (seat: number) => void;
+}
+
+const SeatGrid: React.FC<SeatGridProps> = ({ room, allocations, getColor, blockedSeats = [], onSeatClick }) => {
+  if (room.rows.length === 0) {
+    return <div className="text-xs text-gray-500 italic">No row layout available for this room.</div>;
+  }
+
+  const grid = buildSeatGrid(room, allocations);
+  const mappedSeats = room.rows.reduce((sum, benches) => sum + benches, 0);
+  const lastSeat = Math.max(0, ...allocations.map(a => a.endSeat || 0));
+  const unmapped = Math.max(0, lastSeat - mappedSeats);
+  let seatNo = 0;
+
+  return (
+    <div className="mt-3">
+      <div className="text-xs text-center text-gray-500 mb-1 tracking-widest">FRONT</div>
+      <div className="space-y-1 overflow-x-auto">
+        {grid.map((row, rowIdx) => (
+          <div key={rowIdx} className="flex items-center gap-1">
+            <span className="w-8 text-xs text-gray-500 shrink-0">R{rowIdx + 1}</span>
+            {row.map((alloc, benchIdx) => {
+              seatNo++;
+              const seat = seatNo;
+              const blocked = blockedSeats.includes(seat);
+              const label = alloc ? `${alloc.branch}-${alloc.section}` : blocked ? 'Blocked' : 'Empty';
+              return (
+                <div
+                  key={benchIdx}
+                  className={`w-9 h-6 shrink-0 rounded text-[10px] leading-6 text-center ${
+                    alloc
+                      ? `${getColor(alloc.branch, alloc.section)} text-white`
+                      : blocked
+                        ? 'bg-gray-700 text-white'
+                        : 'bg-gray-200 text-gray-500'
+                  } ${onSeatClick ? 'cursor-pointer hover:ring-2 hover:ring-blue-400' : ''}`}
+                  title={`Seat ${seat} (Row ${rowIdx + 1}, Bench ${benchIdx + 1}): ${label}`}
+                  onClick={onSeatClick ? () => onSeatClick(seat) : undefined}
+                >
+                  {alloc ? alloc.branch : blocked ? '✕' : seat}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      {unmapped > 0 && (
+        <div className="text-xs text-red-600 mt-1">
+          {unmapped} allocated seat(s) fall outside the row layout ({mappedSeats} benches mapped).
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeatGrid;
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Upload, ClipboardPaste, AlertCircle } from 'lucide-react';
+import { Section } from '../types';
+import { parseSectionImport, applySectionImport, SectionImportRow } from '../utils/sections';
+
+interface SectionImportPanelProps {
+  sections: Section[];
+  onImport: (sections: Section[]) => void;
+}
+
+const SectionImportPanel: React.FC<SectionImportPanelProps> = ({ sections, onImport }) => {
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<SectionImportRow[] | null>(null);
+  const [message, setMessage] = useState<{ error: boolean; text: string } | null>(null);
+
+  const showPreview = (input: string) => {
+    const rows = parseSectionImport(input, sections);
+    setPreview(rows);
+    setMessage(rows.length === 0 ? { error: true, text: 'No rows found to import.' } : null);
+  };
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(content => {
+        setText(content);
+        showPreview(content);
+      })
+      .catch(error => setMessage({ error: true, text: `Could not read ${file.name}: ${error}` }));
+    e.target.value = '';
+  };
+
+  const apply = (mode: 'replace' | 'merge') => {
+    if (!preview) return;
+    if (mode === 'replace' && !window.confirm(`Replace all ${sections.length} current sections with the imported list?`)) return;
+    const imported = preview.filter(r => r.errors.length === 0).length;
+    onImport(applySectionImport(sections, preview, mode));
+    setMessage({ error: false, text: `${mode === 'replace' ? 'Replaced the list with' : 'Merged'} ${imported} section(s).` });
+    setPreview(null);
+    setText('');
+  };
+
+  const valid = preview ? preview.filter(r => r.errors.length === 0) : [];
+  const updating = valid.filter(r => r.existing).length;
+
+  return (
+    <details className="mb-4 border rounded-lg">
+      <summary className="cursor-pointer p-4 font-semibold text-gray-800">Import sections from CSV or spreadsheet</summary>
+      <div className="p-4 pt-0">
+        <p className="text-sm text-gray-600 mb-3">
+          Paste rows copied from Excel or upload a CSV with columns Branch, Section, Students and optionally Subject.
+          A header row is optional; without one the columns are read in that order.
+        </p>
+        <textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          rows={5}
+          placeholder={'Branch\tSection\tStudents\tSubject\nCSE\t1\t123\tCS201'}
+          className="w-full px-3 py-2 border rounded-md font-mono text-sm"
+        />
+        <div className="flex flex-wrap items-center gap-3 mt-2">
+          <button
+            onClick={() => showPreview(text)}
+            disabled={!text.trim()}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <ClipboardPaste size={16} />
+            Preview pasted rows
+          </button>
+          <label className="flex items-center gap-2 px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50 cursor-pointer">
+            <Upload size={16} />
+            Upload CSV
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleUpload} className="hidden" />
+          </label>
+        </div>
+
+        {message && (
+          <div className={`mt-3 p-3 rounded-md text-sm flex items-start gap-2 ${message.error ? 'bg-red-50 border border-red-300 text-red-800' : 'bg-green-50 border border-green-300 text-green-800'}`}>
+            {message.error && <AlertCircle size={16} className="mt-0.5 shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        {preview && preview.length > 0 && (
+          <div className="mt-4">
+            <div className="text-sm text-gray-700 mb-2">
+              {valid.length} of {preview.length} row(s) can be imported
+              {updating > 0 && `; ${updating} match a section already in the list`}
+              {preview.length > valid.length && `; ${preview.length - valid.length} with problems will be skipped`}.
+            </div>
+            <div className="max-h-72 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm text-left border-collapse">
+                <thead className="bg-gray-100 sticky top-0">
+                  <tr className="text-gray-600">
+                    <th className="py-1 px-2">Line</th>
+                    <th className="py-1 px-2">Branch</th>
+                    <th className="py-1 px-2">Section</th>
+                    <th className="py-1 px-2">Students</th>
+                    <th className="py-1 px-2">Subject</th>
+                    <th className="py-1 px-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map(row => (
+                    <tr
+                      key={row.line}
+                      className={`border-t ${row.errors.length > 0 ? 'bg-red-50 text-red-800' : row.existing ? 'bg-yellow-50' : ''}`}
+                    >
+                      <td className="py-1 px-2 text-gray-500">{row.line}</td>
+                      <td className="py-1 px-2">{row.branch || <span className="italic">blank</span>}</td>
+                      <td className="py-1 px-2">{row.section || <span className="italic">blank</span>}</td>
+                      <td className="py-1 px-2">{row.students ?? <span className="italic">invalid</span>}</td>
+                      <td className="py-1 px-2">{row.paper}</td>
+                      <td className="py-1 px-2">
+                        {row.errors.length > 0 ? row.errors.join(' ') : row.existing ? 'Updates existing section' : 'New'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex flex-wrap gap-3 mt-3">
+              <button
+                onClick={() => apply('merge')}
+                disabled={valid.length === 0}
+                className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400"
+              >
+                Merge into current list
+              </button>
+              <button
+                onClick={() => apply('replace')}
+                disabled={valid.length === 0}
+                className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:bg-gray-400"
+              >
+                Replace current list
+              </button>
+              <button onClick={() => setPreview(null)} className="px-3 py-1.5 text-sm border rounded-md hover:bg-gray-50">
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SectionImportPanel;
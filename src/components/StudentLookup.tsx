@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Search, MapPin, Upload, AlertCircle } from 'lucide-react';
+import { LookupData, LookupQuery, LookupSeat, parseLookupData, findSeat } from '../utils/lookup';
+
+interface StudentLookupProps {
+  initialQuery: LookupQuery;
+  dataUrl: string;
+}
+
+// Public page students reach from a notice-board QR code. It reads the static lookup export,
+// so it needs no backend: the file is fetched once and every search runs in the browser.
+const StudentLookup: React.FC<StudentLookupProps> = ({ initialQuery, dataUrl }) => {
+  const [data, setData] = useState<LookupData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [query, setQuery] = useState<LookupQuery>(initialQuery);
+  const [result, setResult] = useState<{ query: LookupQuery; seat: LookupSeat | null } | null>(null);
+
+  const search = (lookup: LookupData, q: LookupQuery) => {
+    setResult({ query: q, seat: findSeat(lookup, q) });
+  };
+
+  useEffect(() => {
+    fetch(dataUrl)
+      .then(response => {
+        if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+        return response.json();
+      })
+      .then(json => {
+        const lookup = parseLookupData(json);
+        setData(lookup);
+        // A link with all three fields opens straight on the result
+        if (initialQuery.branch && initialQuery.section && initialQuery.rollNo) search(lookup, initialQuery);
+      })
+      .catch(error => setLoadError(`Could not load the seating data from ${dataUrl}: ${error.message || error}`));
+  }, [dataUrl, initialQuery]);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    file.text()
+      .then(text => {
+        setData(parseLookupData(JSON.parse(text)));
+        setLoadError(null);
+      })
+      .catch(error => setLoadError(`Could not read ${file.name}: ${error.message || error}`));
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (data) search(data, query);
+  };
+
+  return (
+    <div className="max-w-md mx-auto p-6 min-h-screen">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h1 className="text-2xl font-bold text-gray-800 mb-1 flex items-center gap-2">
+          <MapPin className="text-blue-600" />
+          Find Your Exam Seat
+        </h1>
+        {data && <p className="text-sm text-gray-600 mb-4">{data.title}</p>}
+
+        {loadError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-300 rounded-md text-sm text-red-800">
+            <div className="flex items-start gap-2">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" />
+              {loadError}
+            </div>
+            <label className="inline-flex items-center gap-2 mt-2 px-3 py-1.5 bg-white border rounded-md cursor-pointer">
+              <Upload size={16} />
+              Open a lookup file instead
+              <input type="file" accept=".json,application/json" onChange={handleUpload} className="hidden" />
+            </label>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="lookup-branch" className="block mb-1 text-sm font-medium text-gray-700">Branch</label>
+              <input
+                id="lookup-branch"
+                value={query.branch}
+                onChange={e => setQuery({ ...query, branch: e.target.value })}
+                className="w-full px-3 py-2 border rounded-md"
+              />
+            </div>
+            <div>
+              <label htmlFor="lookup-section" className="block mb-1 text-sm font-medium text-gray-700">Section</label>
+              <input
+                id="lookup-section"
+                value={query.section}
+                onChange={e => setQuery({ ...query, section: e.target.value })}
+                className="w-full px-3 py-2 border rounded-md"
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="lookup-roll" className="block mb-1 text-sm font-medium text-gray-700">Roll number</label>
+            <input
+              id="lookup-roll"
+              value={query.rollNo}
+              onChange={e => setQuery({ ...query, rollNo: e.target.value })}
+              autoFocus={!!query.branch && !!query.section}
+              className="w-full px-3 py-2 border rounded-md font-mono"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!data || !query.branch || !query.section || !query.rollNo}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            <Search size={18} />
+            Find my seat
+          </button>
+        </form>
+
+        {result && (
+          result.seat ? (
+            <div className="mt-6 p-4 bg-green-50 border border-green-300 rounded-lg text-center">
+              <div className="text-sm text-gray-600">{result.query.branch}-{result.query.section} · {result.query.rollNo}</div>
+              {result.seat.block && <div className="text-lg text-gray-700 mt-2">{result.seat.block}</div>}
+              <div className="text-4xl font-bold text-gray-900 my-1">Room {result.seat.room}</div>
+              <div className="text-lg text-gray-800">
+                {result.seat.row !== null ? `Row ${result.seat.row}, Bench ${result.seat.bench}` : `Seat ${result.seat.seat}`}
+              </div>
+              {result.seat.row !== null && <div className="text-sm text-gray-500">Seat {result.seat.seat}</div>}
+            </div>
+          ) : (
+            <div className="mt-6 p-4 bg-yellow-50 border border-yellow-300 rounded-lg text-sm text-yellow-900">
+              No seat found for roll number {result.query.rollNo} in {result.query.branch}-{result.query.section}.
+              Check the details or ask the exam cell.
+            </div>
+          )
+        )}
+        {data && (
+          <p className="mt-6 text-xs text-gray-400">Seating data published {new Date(data.generatedAt).toLocaleString()}.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudentLookup;
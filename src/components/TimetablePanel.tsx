@@ -0,0 +1,229 @@
+import React from 'react';
+import { Plus, Trash2, CalendarDays, Play, AlertCircle } from 'lucide-react';
+import { Section, RoomBlock, ExamSession, SessionResult } from '../types';
+import { DEFAULT_SLOTS, compareSlots, slotKey, sessionLabel, validateTimetable } from '../utils/timetable';
+
+interface TimetablePanelProps {
+  sessions: ExamSession[];
+  sections: Section[];
+  roomBlocks: RoomBlock[];
+  results: SessionResult[];
+  onChange: (sessions: ExamSession[]) => void;
+  onRun: () => void;
+}
+
+const TimetablePanel: React.FC<TimetablePanelProps> = ({ sessions, sections, roomBlocks, results, onChange, onRun }) => {
+  const errors = validateTimetable(sessions, sections);
+  const namedSections = sections.filter(s => s.branch && s.section);
+
+  const addSession = () => {
+    const newId = Math.max(...sessions.map(s => s.id), 0) + 1;
+    const last = sessions[sessions.length - 1];
+    onChange([...sessions, { id: newId, date: last ? last.date : '', slot: DEFAULT_SLOTS[0], sectionIds: [] }]);
+  };
+
+  const updateSession = (id: number, changes: Partial<ExamSession>) => {
+    onChange(sessions.map(s => (s.id === id ? { ...s, ...changes } : s)));
+  };
+
+  const toggleSection = (session: ExamSession, sectionId: number) => {
+    const sectionIds = session.sectionIds.includes(sectionId)
+      ? session.sectionIds.filter(id => id !== sectionId)
+      : [...session.sectionIds, sectionId];
+    updateSession(session.id, { sectionIds });
+  };
+
+  // Day/slot grid: one column per date+slot, one row per room used in any session
+  const sortedSessions = [...sessions].sort(compareSlots);
+  const columns: { key: string; label: string; sessionIds: number[] }[] = [];
+  for (const session of sortedSessions) {
+    const key = slotKey(session);
+    const column = columns.find(c => c.key === key);
+    if (column) column.sessionIds.push(session.id);
+    else columns.push({ key, label: sessionLabel(session), sessionIds: [session.id] });
+  }
+  const resultById: Record<number, SessionResult> = {};
+  results.forEach(r => { resultById[r.sessionId] = r; });
+  const usedRooms = roomBlocks.flatMap(block =>
+    block.rooms
+      .filter(room => results.some(r => r.allocation.some(a => !a.error && a.roomNo === room.no)))
+      .map(room => ({ room, blockName: block.name }))
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mt-6">
+      <h2 className="text-2xl font-semibold mb-4 text-gray-800 flex items-center gap-2">
+        <CalendarDays className="text-teal-600" />
+        Exam Timetable
+      </h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Define sessions by date and slot and pick the sections sitting each one. Every session is allocated
+        with the current algorithm settings against the same rooms; rooms are reused across slots.
+      </p>
+
+      <div className="space-y-3">
+        {sessions.map((session, idx) => (
+          <div key={session.id} className="p-3 bg-gray-50 rounded-lg">
+            <div className="flex flex-wrap gap-3 items-center mb-2">
+              <span className="font-medium text-gray-700 w-20">Session {idx + 1}</span>
+              <input
+                type="date"
+                value={session.date}
+                onChange={e => updateSession(session.id, { date: e.target.value })}
+                className="px-3 py-1.5 border rounded-md"
+              />
+              <input
+                type="text"
+                list="session-slots"
+                value={session.slot}
+                onChange={e => updateSession(session.id, { slot: e.target.value })}
+                className="px-3 py-1.5 border rounded-md w-36"
+                placeholder="Slot"
+              />
+              <button
+                onClick={() => updateSession(session.id, { sectionIds: namedSections.map(s => s.id) })}
+                className="text-sm text-blue-700 hover:underline"
+              >
+                All sections
+              </button>
+              <button
+                onClick={() => updateSession(session.id, { sectionIds: [] })}
+                className="text-sm text-blue-700 hover:underline"
+              >
+                None
+              </button>
+              <button
+                onClick={() => onChange(sessions.filter(s => s.id !== session.id))}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-md ml-auto"
+                title="Remove session"
+              >
+                <Trash2 size={18} />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {namedSections.map(s => (
+                <label key={s.id} className="flex items-center gap-1 text-sm px-2 py-1 bg-white border rounded-md">
+                  <input
+                    type="checkbox"
+                    checked={session.sectionIds.includes(s.id)}
+                    onChange={() => toggleSection(session, s.id)}
+                  />
+                  {s.branch}-{s.section}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <datalist id="session-slots">
+        {DEFAULT_SLOTS.map(slot => <option key={slot} value={slot} />)}
+      </datalist>
+
+      {errors.length > 0 && (
+        <ul className="mt-4 p-3 bg-red-50 border border-red-300 rounded-md text-sm text-red-800 space-y-1">
+          {errors.map((err, idx) => (
+            <li key={idx} className="flex items-start gap-2">
+              <AlertCircle size={14} className="mt-0.5 shrink-0" />
+              {err}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-3 mt-4">
+        <button
+          onClick={addSession}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          <Plus size={18} />
+          Add Session
+        </button>
+        <button
+          onClick={onRun}
+          disabled={sessions.length === 0 || errors.length > 0}
+          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+        >
+          <Play size={18} />
+          Allocate All Sessions
+        </button>
+      </div>
+
+      {results.length > 0 && (
+        <>
+          <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-700">Per-session statistics</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left border-collapse">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 pr-4">Session</th>
+                  <th className="py-2 pr-4">Students</th>
+                  <th className="py-2 pr-4">Allocated</th>
+                  <th className="py-2 pr-4">Unallocated</th>
+                  <th className="py-2 pr-4">Rooms</th>
+                  <th className="py-2 pr-4">Blocks</th>
+                  <th className="py-2 pr-4">Wasted Seats</th>
+                  <th className="py-2">Efficiency</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedSessions.map(session => {
+                  const result = resultById[session.id];
+                  if (!result) return null;
+                  const unallocated = result.stats.totalStudents - result.stats.allocatedStudents;
+                  return (
+                    <tr key={session.id} className="border-b border-gray-100">
+                      <td className="py-2 pr-4 font-medium">{sessionLabel(session)}</td>
+                      <td className="py-2 pr-4">{result.stats.totalStudents}</td>
+                      <td className="py-2 pr-4">{result.stats.allocatedStudents}</td>
+                      <td className={`py-2 pr-4 ${unallocated > 0 ? 'text-red-600 font-semibold' : ''}`}>{unallocated}</td>
+                      <td className="py-2 pr-4">{result.stats.roomsUsed}</td>
+                      <td className="py-2 pr-4">{result.stats.blocksUsed}</td>
+                      <td className="py-2 pr-4">{result.stats.wastedSeats}</td>
+                      <td className="py-2">{result.stats.efficiency}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 className="text-lg font-semibold mt-6 mb-3 text-gray-700">Room usage by day and slot</h3>
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="border px-2 py-1 bg-gray-100 text-left">Room</th>
+                  {columns.map(col => (
+                    <th key={col.key} className="border px-2 py-1 bg-gray-100 whitespace-nowrap">{col.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {usedRooms.map(({ room, blockName }) => (
+                  <tr key={room.no}>
+                    <td className="border px-2 py-1 whitespace-nowrap" title={blockName}>{room.no}</td>
+                    {columns.map(col => {
+                      const cellAllocations = col.sessionIds.flatMap(id =>
+                        (resultById[id]?.allocation || []).filter(a => !a.error && a.roomNo === room.no)
+                      );
+                      return (
+                        <td
+                          key={col.key}
+                          className={`border px-2 py-1 whitespace-nowrap ${cellAllocations.length > 0 ? 'bg-teal-50' : ''}`}
+                        >
+                          {cellAllocations.map(a => `${a.branch}-${a.section} (${a.students})`).join(', ')}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TimetablePanel;
@@ -0,0 +1,207 @@
+// Optional room features, read from yes/no columns of the room CSV
+export type RoomFeature = 'wheelchair' | 'nearWashroom' | 'cctv' | 'extraTime';
+
+// What a section or student needs from a room: a feature, or a ground-floor room
+export type RoomRequirement = RoomFeature | 'groundFloor';
+
+export interface Section {
+  id: number;
+  branch: string;
+  section: string;
+  students: number;
+  paper?: string; // subject/paper code the section sits
+  requirements?: RoomRequirement[];
+}
+
+export interface Room {
+  no: string;
+  capacity: number;
+  rows: number[];
+  floor?: number; // 0 is the ground floor
+  features?: RoomFeature[];
+  // Seats taken out of use for a run; when set, capacity already excludes them
+  blockedSeats?: number[];
+  // Held back for emergency overflow; regular allocation leaves it empty (see applyAvailability)
+  standby?: boolean;
+  // Sections an earlier pass of the same run already seated here (counted by the per-room limits)
+  occupants?: { branch: string; section: string; paper?: string }[];
+}
+
+export interface RoomBlock {
+  name: string;
+  rooms: Room[];
+}
+
+// Problem found while loading or editing the room inventory
+export interface RoomIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  line?: number;
+  roomNo?: string;
+}
+
+export interface Allocation {
+  branch: string;
+  section: string;
+  roomNo: string;
+  students: number;
+  paper?: string;
+  startSeat?: number;
+  endSeat?: number;
+  // Explicit seat numbers when the allocation is not one contiguous range (interleaved seating)
+  seats?: number[];
+  // Room requirements this chunk was placed for; on an error row, the requirements no room could meet
+  requirements?: RoomRequirement[];
+  partial?: boolean;
+  emergency?: boolean;
+  error?: boolean;
+  blockName?: string;
+}
+
+export interface Stats {
+  totalStudents: number;
+  allocatedStudents: number;
+  roomsUsed: number;
+  blocksUsed: number;
+  totalCapacity: number;
+  wastedSeats: number;
+  blockedSeats: number;
+  localityPenalty: number; // extra blocks sections are spread over (0 when every section stays in one block)
+  efficiency: string;
+}
+
+export interface Student {
+  rollNo: string;
+  name: string;
+  branch: string;
+  section: string;
+  requirements?: RoomRequirement[];
+}
+
+// A named student placed on a specific seat of an allocation
+export interface SeatAssignment {
+  student: Student;
+  roomNo: string;
+  blockName?: string;
+  seat: number;
+  position: SeatPosition | null;
+}
+
+// Everything besides sections and rooms that an allocation run depends on
+export interface AllocationSettings {
+  algorithm: number;
+  minChunk: number;
+  interleaved: boolean;
+  usePriorityOrder: boolean;
+  optimiserTimeLimit: number;
+  keepSectionsTogether: boolean; // place each section within one block where possible
+  maxPapersPerRoom: number; // distinct paper codes per room, 0 for no limit
+  maxSectionsPerRoom: number; // distinct sections per room, 0 for no limit
+  emergencyMode: boolean; // seat students who do not fit by relaxing the rules (see EmergencyReport)
+  emergencyExtraSeats: number; // extra benches allowed per room in emergency mode, 0 for none
+  emergencyRelaxMinChunk: boolean; // allow chunks below minChunk in emergency mode
+}
+
+export interface AllocationOutcome {
+  result: Allocation[];
+  roomUsage: Record<string, number>;
+  report?: OptimiserReport;
+  emergency?: EmergencyReport;
+}
+
+// One exam sitting in the timetable: the sections writing a paper on a given date and slot
+export interface ExamSession {
+  id: number;
+  date: string;
+  slot: string;
+  sectionIds: number[];
+}
+
+export interface SessionResult {
+  sessionId: number;
+  allocation: Allocation[];
+  stats: Stats;
+}
+
+export interface AlgorithmComparison {
+  algorithm: number;
+  outcome: AllocationOutcome;
+  stats: Stats;
+  splitSections: number;
+  unallocatedStudents: number;
+}
+
+export interface Invigilator {
+  id: number;
+  name: string;
+  department: string;
+  maxDuties: number;
+  unavailable: string[]; // slot labels such as "2026-11-02 Morning"
+}
+
+// A room that needs invigilation in one slot, with the departments (branches) seated in it
+export interface DutyRoom {
+  roomNo: string;
+  blockName?: string;
+  capacity: number;
+  departments: string[];
+}
+
+export interface DutySlot {
+  key: string;
+  label: string;
+  rooms: DutyRoom[];
+}
+
+export interface Duty {
+  slotKey: string;
+  roomNo: string;
+  invigilatorId: number;
+  ownDepartment: boolean; // no other invigilator was free, so they watch their own department
+}
+
+// Outcome of a bounded-search optimiser run
+export interface OptimiserReport {
+  cost: number;
+  nodes: number;
+  complete: boolean;
+}
+
+// Relaxations the emergency overflow fallback used to seat students the regular run could not
+export interface EmergencyReport {
+  students: number; // seated by the fallback
+  standbyRooms: string[]; // standby rooms opened
+  relaxedMinChunk: boolean; // students were seated with the minimum chunk relaxed
+  overCapacity: Record<string, number>; // room number to seats used beyond its capacity
+  unplaced: number; // students still without a seat
+}
+
+// Physical location of a seat: row is 1-based from the front, bench is 1-based within the row
+export interface SeatPosition {
+  seat: number;
+  row: number;
+  bench: number;
+}
+
+// Plan marked as published: the baseline minimal-change reallocation and the change report work against
+export interface PublishedPlan {
+  allocation: Allocation[];
+  at: string;
+}
+
+// Named snapshot of the allocator's inputs and results (browser storage and exported JSON)
+export interface SavedPlan {
+  version: number;
+  id: string;
+  name: string;
+  savedAt: string;
+  sections: Section[];
+  roomBlocks: RoomBlock[];
+  unavailableRooms: string[];
+  blockedSeats: Record<string, number[]>;
+  standbyRooms: string[];
+  settings: AllocationSettings;
+  allocation: Allocation[];
+  stats: Stats | null;
+  published: PublishedPlan | null;
+}
@@ -0,0 +1,15 @@
+import { runAllocationJob, AllocationJob, AllocationWorkerMessage } from './allocationJobs';
+
+// Runs allocation jobs off the main thread so large runs do not freeze the page. The allocator starts
+// one worker per job and cancels a job by terminating its worker.
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+const post = (message: AllocationWorkerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (e: MessageEvent<AllocationJob>) => {
+  try {
+    post({ type: 'result', result: runAllocationJob(e.data, progress => post({ type: 'progress', progress })) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
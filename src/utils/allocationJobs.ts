@@ -0,0 +1,49 @@
+import { Section, RoomBlock, Allocation, AllocationSettings, AllocationOutcome, AlgorithmComparison, ExamSession, SessionResult } from '../types';
+import { runAllocation } from './allocators';
+import { reallocateMinimal } from './reallocation';
+import { compareAlgorithms } from './comparison';
+import { runTimetable } from './timetable';
+
+// Work the allocation worker does off the main thread; each kind mirrors one button in the allocator
+export type AllocationJob =
+  | { kind: 'run'; sections: Section[]; roomBlocks: RoomBlock[]; settings: AllocationSettings }
+  | { kind: 'reallocate'; baseline: Allocation[]; sections: Section[]; roomBlocks: RoomBlock[]; settings: AllocationSettings }
+  | { kind: 'compare'; sections: Section[]; roomBlocks: RoomBlock[]; settings: AllocationSettings; algorithms: number[] }
+  | { kind: 'timetable'; sessions: ExamSession[]; sections: Section[]; roomBlocks: RoomBlock[]; settings: AllocationSettings };
+
+export type AllocationJobResult =
+  | { kind: 'run' | 'reallocate'; outcome: AllocationOutcome }
+  | { kind: 'compare'; comparisons: AlgorithmComparison[] }
+  | { kind: 'timetable'; results: SessionResult[] };
+
+// Steps done out of the job's total: algorithms compared, sessions allocated, or students seated by a single run
+export interface AllocationProgress {
+  done: number;
+  total: number;
+  unit?: string;
+}
+
+// Messages the worker posts back: any number of progress updates, then exactly one result or error
+export type AllocationWorkerMessage =
+  | { type: 'progress'; progress: AllocationProgress }
+  | { type: 'result'; result: AllocationJobResult }
+  | { type: 'error'; message: string };
+
+export function runAllocationJob(job: AllocationJob, onProgress: (progress: AllocationProgress) => void): AllocationJobResult {
+  const report = (done: number, total: number) => onProgress({ done, total });
+  const reportSeated = (done: number, total: number) => onProgress({ done, total, unit: 'students seated' });
+  switch (job.kind) {
+    case 'run':
+      report(0, 1);
+      return { kind: 'run', outcome: runAllocation(job.sections, job.roomBlocks, job.settings, [], reportSeated) };
+    case 'reallocate':
+      report(0, 1);
+      return { kind: 'reallocate', outcome: reallocateMinimal(job.baseline, job.sections, job.roomBlocks, job.settings, reportSeated) };
+    case 'compare':
+      report(0, job.algorithms.length);
+      return { kind: 'compare', comparisons: compareAlgorithms(job.sections, job.roomBlocks, job.settings, job.algorithms, report) };
+    case 'timetable':
+      report(0, job.sessions.length);
+      return { kind: 'timetable', results: runTimetable(job.sessions, job.sections, job.roomBlocks, job.settings, report) };
+  }
+}
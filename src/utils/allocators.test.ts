@@ -0,0 +1,115 @@
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Section, RoomBlock } from '../types';
+import { runAllocation, computeStats, scoreAllocation } from './allocators';
+import { applyAvailability } from './availability';
+import { parseRoomCsv } from './rooms';
+import { verifyAllocation } from './invariants';
+import { DEFAULT_SETTINGS } from './plans';
+
+// A whole-university exam: 10 blocks of 20 rooms and 320 sections, more students than seats
+function universityScenario(): { sections: Section[]; roomBlocks: RoomBlock[] } {
+  let state = 12345;
+  const random = (min: number, max: number) => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return min + Math.floor((state / 0x80000000) * (max - min + 1));
+  };
+  const blocks: RoomBlock[] = Array.from({ length: 10 }, (_, b) => ({
+    name: `Block ${b + 1}`,
+    rooms: Array.from({ length: 20 }, (_, r) => {
+      const rows = Array.from({ length: 5 }, () => random(6, 11));
+      return { no: `${b + 1}-${r + 1}`, capacity: rows.reduce((sum, n) => sum + n, 0), rows, floor: r % 4 };
+    }),
+  }));
+  const blockedSeats: Record<string, number[]> = {};
+  blocks.forEach(block => block.rooms.forEach((room, r) => { if (r % 3 === 0) blockedSeats[room.no] = [1, 2]; }));
+  const sections: Section[] = Array.from({ length: 320 }, (_, i) => ({
+    id: i + 1,
+    branch: `B${i % 20}`,
+    section: String(Math.floor(i / 20) + 1),
+    students: random(1, 60),
+    paper: `P${i % 7}`,
+  }));
+  return { sections, roomBlocks: applyAvailability(blocks, [], blockedSeats) };
+}
+
+describe('allocation at university scale', () => {
+  const { sections, roomBlocks } = universityScenario();
+  const runs = [
+    ...[1, 2, 3, 4].map(algorithm => ({ algorithm })),
+    { algorithm: 3, keepSectionsTogether: true },
+    { algorithm: 3, interleaved: true },
+    { algorithm: 4, emergencyMode: true, emergencyExtraSeats: 2 },
+  ];
+
+  it.each(runs)('runs %o in well under a second and keeps the invariants', changes => {
+    const settings = { ...DEFAULT_SETTINGS, minChunk: 10, ...changes };
+    const started = Date.now();
+    const outcome = runAllocation(sections, roomBlocks, settings);
+    computeStats(sections, outcome, roomBlocks);
+    expect(Date.now() - started).toBeLessThan(1000);
+    const hard = verifyAllocation(outcome.result, sections, roomBlocks, settings).filter(v => v.severity === 'error');
+    expect(hard).toEqual([]);
+  });
+});
+
+// The sections the allocator starts with, on the bundled room inventory
+function bundledScenario(): { sections: Section[]; roomBlocks: RoomBlock[] } {
+  const counts: [string, string, number][] = [
+    ['BT', '1', 77], ['CSE', '1', 123], ['CSE', '2', 123], ['CSAI', '1', 81], ['CSAI', '2', 76], ['CSDS', '1', 80],
+    ['EE', '1', 92], ['EE', '2', 90], ['ECE', '1', 110], ['ECE', '2', 111], ['IT', '1', 79], ['IT', '2', 81],
+    ['ITNS', '1', 75], ['ICE', '1', 90], ['ICE', '2', 91], ['MAC', '1', 90], ['ME', '1', 110], ['ME', '2', 104],
+    ['VLSI', '1', 71],
+  ];
+  const sections = counts.map(([branch, section, students], i) => ({ id: i + 1, branch, section, students }));
+  const { roomBlocks } = parseRoomCsv(readFileSync(join(__dirname, '../../public/room information.csv'), 'utf8'));
+  return { sections, roomBlocks: applyAvailability(roomBlocks, [], {}) };
+}
+
+describe('bounded-search optimiser', () => {
+  it('never scores worse than the heuristics on the bundled data', () => {
+    const { sections, roomBlocks } = bundledScenario();
+    const settings = { ...DEFAULT_SETTINGS, optimiserTimeLimit: 0.5 };
+    const score = (algorithm: number) =>
+      scoreAllocation(runAllocation(sections, roomBlocks, { ...settings, algorithm }).result, roomBlocks, settings.minChunk);
+    const optimised = runAllocation(sections, roomBlocks, { ...settings, algorithm: 5 });
+    expect(optimised.report!.cost).toBe(score(5));
+    for (const algorithm of [1, 2, 3, 4]) expect(optimised.report!.cost).toBeLessThanOrEqual(score(algorithm));
+  });
+});
+
+describe('interleaved seating', () => {
+  const settings = { ...DEFAULT_SETTINGS, interleaved: true };
+
+  it('gives a section one chunk per room, also when leftovers fill the other colour', () => {
+    const roomBlocks: RoomBlock[] = [{ name: 'X', rooms: [{ no: 'X1', capacity: 6, rows: [3, 3] }] }];
+    const sections: Section[] = [{ id: 1, branch: 'A', section: '1', students: 4 }, { id: 2, branch: 'B', section: '1', students: 2 }];
+    const { result } = runAllocation(sections, roomBlocks, { ...settings, minChunk: 1 });
+    expect(result.map(a => [`${a.branch}-${a.section}`, a.roomNo, a.seats])).toEqual([['A-1', 'X1', [1, 3, 5, 6]], ['B-1', 'X1', [2, 4]]]);
+  });
+
+  it('leaves no piece below the minimum chunk on the bundled data', () => {
+    const { sections, roomBlocks } = bundledScenario();
+    const { result } = runAllocation(sections, roomBlocks, settings);
+    expect(result.filter(a => a.error)).toEqual([]);
+    expect(verifyAllocation(result, sections, roomBlocks, settings)).toEqual([]);
+  });
+});
+
+describe('run progress', () => {
+  it('reports students seated as the passes finish, within the time limit for the whole run', () => {
+    const { sections, roomBlocks } = universityScenario();
+    const withRequirement = sections.map((s, i) => (i % 40 === 0 ? { ...s, requirements: ['groundFloor' as const] } : s));
+    const settings = { ...DEFAULT_SETTINGS, algorithm: 5, optimiserTimeLimit: 1 };
+    const reports: [number, number][] = [];
+    const started = Date.now();
+    const outcome = runAllocation(withRequirement, roomBlocks, settings, [], (done, total) => reports.push([done, total]));
+    expect(Date.now() - started).toBeLessThan(2500);
+    const seated = outcome.result.filter(a => !a.error).reduce((sum, a) => sum + a.students, 0);
+    const total = sections.reduce((sum, s) => sum + s.students, 0);
+    expect(reports.length).toBeGreaterThan(1);
+    expect(reports.every(([done, of], i) => of === total && done <= total && (i === 0 || done >= reports[i - 1][0]))).toBe(true);
+    expect(reports[reports.length - 1][0]).toBeGreaterThanOrEqual(seated);
+  });
+});
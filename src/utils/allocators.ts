@@ -0,0 +1,1122 @@
+import { Section, Room, RoomBlock, Allocation, Stats, AllocationSettings, AllocationOutcome, OptimiserReport, EmergencyReport } from '../types';
+import { getSeatClasses } from './seating';
+import { orderRooms } from './rooms';
+import { mapToPhysicalSeats } from './availability';
+import { meetsRequirements, requirementKey } from './requirements';
+
+// Cost weights for the bounded-search optimiser (lower total is better)
+const OPTIMISER_WEIGHTS = {
+  room: 100,     // per room opened
+  split: 40,     // per section spread over more than one room
+  fragment: 60,  // per piece of a split section smaller than minChunk
+  waste: 1,      // per empty seat in an opened room
+  unplaced: 1000 // per student left without a seat
+};
+
+type Occupant = { branch: string; section: string; paper?: string };
+
+// State shared by every pass of one run: the optimiser's deadline for the whole run, and progress
+// reports counting the students seated so far. While the optimiser searches, its pass is counted by the
+// share of its time used; reports are throttled and never go backwards.
+function createRun(sections: Section[], settings: AllocationSettings, onProgress?: (done: number, total: number) => void) {
+  const total = sections.filter(s => s.branch && s.section && s.students > 0).reduce((sum, s) => sum + s.students, 0);
+  const deadline = Date.now() + settings.optimiserTimeLimit * 1000;
+  let seated = 0;
+  let reported = 0;
+  let reportedAt = 0;
+  const report = (done: number, force: boolean) => {
+    const now = Date.now();
+    if (!onProgress || (!force && now - reportedAt < 100)) return;
+    reportedAt = now;
+    reported = Math.max(reported, Math.min(total, Math.round(done)));
+    onProgress(reported, total);
+  };
+  return {
+    deadline,
+    // A pass is under way and has spent `fraction` of its time on its `students`
+    searching: (students: number, fraction: number) => report(seated + students * Math.min(1, fraction), false),
+    // A pass has finished and seated `students`
+    passed: (students: number) => {
+      seated += students;
+      report(seated, true);
+    },
+  };
+}
+type Run = ReturnType<typeof createRun>;
+
+// Per-room limits on distinct sections and distinct paper codes (0 is no limit). Rooms start with the
+// occupants an earlier pass of the run left in them. A section already in a room may always add more
+// students there; sections without a paper code do not count towards the paper limit.
+function createRoomLimits(rooms: Room[], { maxPapersPerRoom, maxSectionsPerRoom }: AllocationSettings) {
+  const counts: Record<string, { sections: Record<string, number>; sectionCount: number; papers: Record<string, number>; paperCount: number }> = {};
+  const keyOf = (s: Occupant) => `${s.branch}-${s.section}`;
+  const entry = (roomNo: string) => {
+    if (!counts[roomNo]) counts[roomNo] = { sections: {}, sectionCount: 0, papers: {}, paperCount: 0 };
+    return counts[roomNo];
+  };
+  const add = (roomNo: string, s: Occupant) => {
+    const c = entry(roomNo);
+    const key = keyOf(s);
+    if (!c.sections[key]) c.sectionCount++;
+    c.sections[key] = (c.sections[key] || 0) + 1;
+    if (s.paper) {
+      if (!c.papers[s.paper]) c.paperCount++;
+      c.papers[s.paper] = (c.papers[s.paper] || 0) + 1;
+    }
+  };
+  // Undo one add (the optimiser backtracks)
+  const remove = (roomNo: string, s: Occupant) => {
+    const c = entry(roomNo);
+    const key = keyOf(s);
+    if (--c.sections[key] === 0) c.sectionCount--;
+    if (s.paper && --c.papers[s.paper] === 0) c.paperCount--;
+  };
+  const allows = (roomNo: string, s: Occupant) => {
+    const c = counts[roomNo];
+    if (!c || c.sections[keyOf(s)]) return true;
+    if (maxSectionsPerRoom > 0 && c.sectionCount >= maxSectionsPerRoom) return false;
+    if (!s.paper || maxPapersPerRoom <= 0 || c.papers[s.paper]) return true;
+    return c.paperCount < maxPapersPerRoom;
+  };
+  rooms.forEach(room => (room.occupants || []).forEach(o => add(room.no, o)));
+  return { add, remove, allows };
+}
+
+// 1. Simple Greedy
+export function allocateSimpleGreedy(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings
+): AllocationOutcome {
+  const { minChunk, usePriorityOrder } = settings;
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  const allRooms: (Room & { blockName: string })[] = orderRooms(roomBlocks, usePriorityOrder);
+  const limits = createRoomLimits(allRooms, settings);
+  let roomsInUse = 0;
+  const sectionLeft: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
+  sectionLeft.sort((a, b) => b.students - a.students);
+  for (const section of sectionLeft) {
+    let remaining = section.students;
+    for (const room of allRooms) {
+      if (remaining === 0) break;
+      if (!limits.allows(room.no, section)) continue;
+      const used = roomUsage[room.no] || 0;
+      const available = room.capacity - used;
+      if (available <= 0) continue;
+      let toAllocate = Math.min(available, remaining);
+      // Prevent starting a room with a small chunk unless it's the only way
+      if (used === 0 && toAllocate < minChunk && remaining === toAllocate) {
+        // Only allow if no other room has any students (all rooms empty)
+        const anyRoomHasStudents = roomsInUse > 0;
+        if (!anyRoomHasStudents) {
+          // Allow placing the last small chunk in an empty room
+        } else {
+          continue;
+        }
+      } else if (toAllocate < minChunk && remaining > minChunk) {
+        continue;
+      }
+      result.push({
+        branch: section.branch,
+        section: section.section,
+        roomNo: room.no,
+        students: toAllocate,
+        startSeat: used + 1,
+        endSeat: used + toAllocate,
+        partial: toAllocate !== section.students,
+        blockName: room.blockName
+      });
+      limits.add(room.no, section);
+      if (used === 0) roomsInUse++;
+      roomUsage[room.no] = used + toAllocate;
+      remaining -= toAllocate;
+    }
+    if (remaining > 0) {
+      result.push({
+        branch: section.branch,
+        section: section.section,
+        roomNo: "NO SPACE",
+        students: remaining,
+        error: true
+      });
+    }
+  }
+  return { result, roomUsage };
+}
+
+// 2. Greedy with Min Chunk
+export function allocateGreedyMinChunk(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings
+): AllocationOutcome {
+  const { minChunk, usePriorityOrder } = settings;
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  const allRooms: (Room & { blockName: string })[] = orderRooms(roomBlocks, usePriorityOrder);
+  const limits = createRoomLimits(allRooms, settings);
+  let roomsInUse = 0;
+  const sectionLeft: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
+  sectionLeft.sort((a, b) => b.students - a.students);
+  for (const section of sectionLeft) {
+    let remaining = section.students;
+    for (const room of allRooms) {
+      if (remaining === 0) break;
+      if (!limits.allows(room.no, section)) continue;
+      const used = roomUsage[room.no] || 0;
+      const available = room.capacity - used;
+      if (available <= 0) continue;
+      let toAllocate = Math.min(available, remaining);
+      // Prevent starting a room with a small chunk unless it's the only way
+      if (used === 0 && toAllocate < minChunk && remaining === toAllocate) {
+        const anyRoomHasStudents = roomsInUse > 0;
+        if (!anyRoomHasStudents) {
+          // Allow placing the last small chunk in an empty room
+        } else {
+          continue;
+        }
+      } else if (toAllocate < minChunk && remaining > minChunk) {
+        continue;
+      }
+      result.push({
+        branch: section.branch,
+        section: section.section,
+        roomNo: room.no,
+        students: toAllocate,
+        startSeat: used + 1,
+        endSeat: used + toAllocate,
+        partial: toAllocate !== section.students,
+        blockName: room.blockName
+      });
+      limits.add(room.no, section);
+      if (used === 0) roomsInUse++;
+      roomUsage[room.no] = used + toAllocate;
+      remaining -= toAllocate;
+    }
+    if (remaining > 0) {
+      result.push({
+        branch: section.branch,
+        section: section.section,
+        roomNo: "NO SPACE",
+        students: remaining,
+        error: true
+      });
+    }
+  }
+  return { result, roomUsage };
+}
+
+// 3. Greedy Lookahead (Coordinated Filling)
+export function allocateGreedyLookahead(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings
+): AllocationOutcome {
+  const { minChunk, usePriorityOrder } = settings;
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  const sectionLeft: Section[] = sections
+    .filter(s => s.branch && s.section && s.students > 0)
+    .map(s => ({ ...s }));
+  const allRooms: (Room & { blockName: string })[] = orderRooms(roomBlocks, usePriorityOrder);
+  const limits = createRoomLimits(allRooms, settings);
+  let roomsInUse = 0;
+  sectionLeft.sort((a, b) => b.students - a.students);
+  for (const room of allRooms) {
+    let seatsLeft = room.capacity;
+    let allocationsForRoom: Allocation[] = [];
+    // Try to find a section that fits perfectly
+    let perfectIdx = sectionLeft.findIndex(s => s.students === seatsLeft && limits.allows(room.no, s));
+    if (perfectIdx !== -1) {
+      const s = sectionLeft[perfectIdx];
+      allocationsForRoom.push({
+        branch: s.branch,
+        section: s.section,
+        roomNo: room.no,
+        students: seatsLeft,
+        startSeat: 1,
+        endSeat: seatsLeft,
+        blockName: room.blockName
+      });
+      limits.add(room.no, s);
+      sectionLeft.splice(perfectIdx, 1);
+      seatsLeft = 0;
+    }
+    // If not perfect, try to fill with largest possible section(s)
+    while (seatsLeft > 0 && sectionLeft.length > 0) {
+      let bestIdx = -1;
+      let bestChunk = 0;
+      for (let i = 0; i < sectionLeft.length; ++i) {
+        const s = sectionLeft[i];
+        if (s.students <= seatsLeft && s.students > bestChunk && limits.allows(room.no, s)) {
+          bestChunk = s.students;
+          bestIdx = i;
+        }
+      }
+      if (bestIdx !== -1) {
+        const s = sectionLeft[bestIdx];
+        // Prevent starting a room with a small chunk unless it's the only way
+        if ((room.capacity - seatsLeft === 0) && s.students < minChunk && s.students === sectionLeft[bestIdx].students) {
+          const anyRoomHasStudents = roomsInUse > 0;
+          if (!anyRoomHasStudents) {
+            // Allow placing the last small chunk in an empty room
+          } else {
+            break;
+          }
+        } else if (s.students < minChunk && s.students !== sectionLeft[bestIdx].students) {
+          break;
+        }
+        allocationsForRoom.push({
+          branch: s.branch,
+          section: s.section,
+          roomNo: room.no,
+          students: s.students,
+          startSeat: room.capacity - seatsLeft + 1,
+          endSeat: room.capacity - seatsLeft + s.students,
+          blockName: room.blockName
+        });
+        limits.add(room.no, s);
+        seatsLeft -= s.students;
+        sectionLeft.splice(bestIdx, 1);
+        continue;
+      }
+      sectionLeft.sort((a, b) => b.students - a.students);
+      const s = sectionLeft.find(sec => limits.allows(room.no, sec));
+      if (!s) break;
+      if (s.students - seatsLeft > 0 && s.students - seatsLeft < minChunk && seatsLeft < minChunk) {
+        break;
+      }
+      const chunk = Math.min(seatsLeft, s.students);
+      if ((room.capacity - seatsLeft === 0) && chunk < minChunk && s.students === chunk) {
+        const anyRoomHasStudents = roomsInUse > 0;
+        if (!anyRoomHasStudents) {
+          // Allow placing the last small chunk in an empty room
+        } else {
+          break;
+        }
+      } else if (chunk < minChunk && s.students > minChunk) break;
+      allocationsForRoom.push({
+        branch: s.branch,
+        section: s.section,
+        roomNo: room.no,
+        students: chunk,
+        startSeat: room.capacity - seatsLeft + 1,
+        endSeat: room.capacity - seatsLeft + chunk,
+        partial: true,
+        blockName: room.blockName
+      });
+      limits.add(room.no, s);
+      s.students -= chunk;
+      seatsLeft -= chunk;
+      if (s.students === 0) sectionLeft.splice(sectionLeft.indexOf(s), 1);
+    }
+    result.push(...allocationsForRoom);
+    if (allocationsForRoom.length > 0) {
+      roomUsage[room.no] = room.capacity - seatsLeft;
+      roomsInUse++;
+    }
+  }
+  for (const s of sectionLeft) {
+    if (s.students > 0) {
+      result.push({
+        branch: s.branch,
+        section: s.section,
+        roomNo: "NO SPACE",
+        students: s.students,
+        error: true
+      });
+    }
+  }
+  return { result, roomUsage };
+}
+
+// 4. Best-Fit/First-Fit Decreasing
+// This algorithm sorts sections and rooms by size, then tries to fit each section into the best-fitting room (the smallest room that can fit the section).
+// If no perfect fit is found, it uses the first room with available space, possibly splitting the section across multiple rooms.
+// It respects the minChunk constraint, so no small group is placed at the start of a room unless it's the only way.
+// This approach generally improves efficiency and reduces splits compared to simple greedy, but may still split sections if needed.
+// Rooms are used in the configured block priority order; the next block is unlocked once every room
+// in the current block has students, or when nothing fits in the blocks unlocked so far.
+export function allocateBestFitFFD(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings
+): AllocationOutcome {
+  const { minChunk } = settings;
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  // Blocks are unlocked in the configured priority order (empty blocks are skipped)
+  const priorityBlocks = roomBlocks.filter(block => block.rooms.length > 0);
+  const orderedRoomBlocks = priorityBlocks.map(block => block.rooms.map(room => room.no));
+  // Map roomNo to block index for fast lookup
+  const roomToBlockIdx: Record<string, number> = {};
+  orderedRoomBlocks.forEach((block, idx) => block.forEach(roomNo => { roomToBlockIdx[roomNo] = idx; }));
+  // Flatten all rooms in order
+  const allRooms: (Room & { blockName: string })[] = orderRooms(priorityBlocks, true);
+  const limits = createRoomLimits(allRooms, settings);
+  // Rooms with students, overall and per block
+  let roomsInUse = 0;
+  const blockRoomsInUse: number[] = orderedRoomBlocks.map(() => 0);
+  const markUsed = (roomNo: string, used: number) => {
+    if (used > 0) return;
+    roomsInUse++;
+    blockRoomsInUse[roomToBlockIdx[roomNo]]++;
+  };
+  const sectionLeft: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
+  sectionLeft.sort((a, b) => b.students - a.students);
+  let maxBlockIdx = 0;
+  for (const section of sectionLeft) {
+    let remaining = section.students;
+    while (remaining > 0) {
+      // Only consider rooms in blocks up to maxBlockIdx
+      let bestRoomIdx = -1;
+      let bestRoomSpace = Infinity;
+      for (let i = 0; i < allRooms.length; ++i) {
+        const room = allRooms[i];
+        const blockIdx = roomToBlockIdx[room.no];
+        if (blockIdx > maxBlockIdx || !limits.allows(room.no, section)) continue;
+        const used = roomUsage[room.no] || 0;
+        const available = room.capacity - used;
+        if (available >= remaining && available < bestRoomSpace) {
+          bestRoomSpace = available;
+          bestRoomIdx = i;
+        }
+      }
+      if (bestRoomIdx !== -1) {
+        const room = allRooms[bestRoomIdx];
+        const used = roomUsage[room.no] || 0;
+        // Prevent starting a room with a small chunk unless it's the only way
+        if (used === 0 && remaining < minChunk && remaining === section.students) {
+          const anyRoomHasStudents = roomsInUse > 0;
+          if (!anyRoomHasStudents) {
+            // Allow placing the last small chunk in an empty room
+          } else {
+            break;
+          }
+        } else if (remaining < minChunk && remaining !== section.students) break;
+        result.push({
+          branch: section.branch,
+          section: section.section,
+          roomNo: room.no,
+          students: remaining,
+          startSeat: used + 1,
+          endSeat: used + remaining,
+          blockName: room.blockName
+        });
+        limits.add(room.no, section);
+        markUsed(room.no, used);
+        roomUsage[room.no] = used + remaining;
+        // After using a room, check if all rooms in current block are used, then unlock next block
+        if (blockRoomsInUse[maxBlockIdx] === orderedRoomBlocks[maxBlockIdx].length && maxBlockIdx < orderedRoomBlocks.length - 1) {
+          maxBlockIdx++;
+        }
+        remaining = 0;
+        continue;
+      }
+      // If no best-fit, use first-fit in current blocks
+      let allocated = false;
+      for (let i = 0; i < allRooms.length; ++i) {
+        const room = allRooms[i];
+        const blockIdx = roomToBlockIdx[room.no];
+        if (blockIdx > maxBlockIdx || !limits.allows(room.no, section)) continue;
+        const used = roomUsage[room.no] || 0;
+        const available = room.capacity - used;
+        if (available <= 0) continue;
+        let toAllocate = Math.min(available, remaining);
+        // Prevent starting a room with a small chunk unless it's the only way
+        if (used === 0 && toAllocate < minChunk && remaining === toAllocate) {
+          const anyRoomHasStudents = roomsInUse > 0;
+          if (!anyRoomHasStudents) {
+            // Allow placing the last small chunk in an empty room
+          } else {
+            continue;
+          }
+        } else if (toAllocate < minChunk && remaining > minChunk) {
+          continue;
+        }
+        result.push({
+          branch: section.branch,
+          section: section.section,
+          roomNo: room.no,
+          students: toAllocate,
+          startSeat: used + 1,
+          endSeat: used + toAllocate,
+          partial: toAllocate !== section.students,
+          blockName: room.blockName
+        });
+        limits.add(room.no, section);
+        markUsed(room.no, used);
+        roomUsage[room.no] = used + toAllocate;
+        // After using a room, check if all rooms in current block are used, then unlock next block
+        if (blockRoomsInUse[maxBlockIdx] === orderedRoomBlocks[maxBlockIdx].length && maxBlockIdx < orderedRoomBlocks.length - 1) {
+          maxBlockIdx++;
+        }
+        remaining -= toAllocate;
+        allocated = true;
+        break;
+      }
+      if (!allocated) {
+        // Could not allocate in current blocks: unlock the next block if there is one
+        if (maxBlockIdx < orderedRoomBlocks.length - 1) {
+          maxBlockIdx++;
+          continue;
+        }
+        break;
+      }
+    }
+    if (remaining > 0) {
+      result.push({
+        branch: section.branch,
+        section: section.section,
+        roomNo: "NO SPACE",
+        students: remaining,
+        error: true
+      });
+    }
+  }
+  return { result, roomUsage };
+}
+
+// Cost of a plan under OPTIMISER_WEIGHTS, as the bounded-search optimiser scores it. `roomBlocks` are the
+// rooms the plan was made for; seat numbers are not looked at.
+export function scoreAllocation(result: Allocation[], roomBlocks: RoomBlock[], minChunk: number): number {
+  const W = OPTIMISER_WEIGHTS;
+  const capacity: Record<string, number> = {};
+  roomBlocks.forEach(block => block.rooms.forEach(room => { capacity[room.no] = room.capacity; }));
+  const used: Record<string, number> = {};
+  const pieces: Record<string, Allocation[]> = {};
+  let cost = 0;
+  for (const alloc of result) {
+    const key = `${alloc.branch}-${alloc.section}`;
+    if (!pieces[key]) pieces[key] = [];
+    pieces[key].push(alloc);
+    if (alloc.error) cost += W.unplaced * alloc.students;
+    else used[alloc.roomNo] = (used[alloc.roomNo] || 0) + alloc.students;
+  }
+  Object.keys(used).forEach(roomNo => {
+    cost += W.room + W.waste * Math.max(0, (capacity[roomNo] || 0) - used[roomNo]);
+  });
+  Object.values(pieces).forEach(group => {
+    const placed = group.filter(a => !a.error);
+    if (placed.length === 0 || group.length < 2) return;
+    cost += W.split + W.fragment * placed.filter(a => a.students < minChunk).length;
+  });
+  return cost;
+}
+
+// 5. Bounded-Search Optimiser
+// Depth-first branch-and-bound over sections in decreasing size. Each section is either placed whole
+// (best-fit into an open room, or into a newly opened room) or split by filling a room and recursing on
+// the remainder. Rooms with the same free space are treated as interchangeable, so only one of each is
+// tried (among the rooms the per-room paper and section limits still let the section into).
+// Plans are scored with OPTIMISER_WEIGHTS and a branch is pruned once its lower bound (rooms still needed,
+// unavoidable splits, unavoidable waste) cannot beat the best plan found. The search is repeated with a
+// widening number of moves per step, stops at the time limit and returns the best plan seen so far.
+// The search starts from the cheapest plan of algorithms 1-4, so it never returns anything worse.
+// Within a run, every search also stops at the run's deadline.
+export function allocateOptimised(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings,
+  run?: Run
+): AllocationOutcome {
+  const { minChunk, usePriorityOrder, optimiserTimeLimit } = settings;
+  const W = OPTIMISER_WEIGHTS;
+  const allRooms: (Room & { blockName: string })[] = orderRooms(roomBlocks, usePriorityOrder);
+  const limits = createRoomLimits(allRooms, settings);
+  const secs: Section[] = sections.filter(s => s.branch && s.section && s.students > 0).map(s => ({ ...s }));
+  secs.sort((a, b) => b.students - a.students);
+  const maxCapacity = Math.max(0, ...allRooms.map(r => r.capacity));
+  // Room indices largest first, for the rooms-still-needed bound
+  const byCapacity = allRooms.map((_, ri) => ri).sort((a, b) => allRooms[b].capacity - allRooms[a].capacity);
+  // Students and forced splits (sections bigger than any room) from section i onwards
+  const studentsFrom: number[] = new Array(secs.length + 1).fill(0);
+  const mustSplitFrom: number[] = new Array(secs.length + 1).fill(0);
+  for (let i = secs.length - 1; i >= 0; i--) {
+    studentsFrom[i] = studentsFrom[i + 1] + secs[i].students;
+    mustSplitFrom[i] = mustSplitFrom[i + 1] + (secs[i].students > maxCapacity ? 1 : 0);
+  }
+
+  const used: number[] = allRooms.map(() => 0);
+  const opened: boolean[] = allRooms.map(() => false);
+  let openFree = 0;
+  const plan: { si: number; ri: number; count: number }[] = [];
+  let best: typeof plan = [];
+  let bestCost = Infinity;
+  // Start from the best heuristic plan; the search only replaces it with a strictly cheaper one
+  const sectionIndex: Record<string, number> = {};
+  secs.forEach((s, si) => { sectionIndex[`${s.branch}-${s.section}`] = si; });
+  const roomIndex: Record<string, number> = {};
+  allRooms.forEach((room, ri) => { roomIndex[room.no] = ri; });
+  if (Object.keys(sectionIndex).length === secs.length) {
+    for (const heuristic of [allocateSimpleGreedy, allocateGreedyMinChunk, allocateGreedyLookahead, allocateBestFitFFD]) {
+      const { result } = heuristic(sections, roomBlocks, settings);
+      const cost = scoreAllocation(result, roomBlocks, minChunk);
+      if (cost >= bestCost) continue;
+      bestCost = cost;
+      best = result.map(a => ({ si: sectionIndex[`${a.branch}-${a.section}`], ri: a.error ? -1 : roomIndex[a.roomNo], count: a.students }));
+    }
+  }
+  let nodes = 0;
+  let timedOut = false;
+  let width: number;
+  let narrowed: boolean;
+  const started = Date.now();
+  const deadline = Math.min(started + optimiserTimeLimit * 1000, run ? run.deadline : Infinity);
+
+  const lowerBound = (si: number, remaining: number, pieces: number, cost: number) => {
+    const left = remaining + studentsFrom[si + 1];
+    let need = left - openFree;
+    let extraRooms = 0;
+    for (let k = 0; k < byCapacity.length && need > 0; k++) {
+      const ri = byCapacity[k];
+      if (opened[ri]) continue;
+      need -= allRooms[ri].capacity;
+      extraRooms++;
+    }
+    const forcedSplits = mustSplitFrom[si + 1] + (pieces === 0 && remaining > maxCapacity ? 1 : 0);
+    return cost
+      + W.room * extraRooms
+      + W.split * forcedSplits
+      + W.waste * Math.max(0, openFree - left)
+      + W.unplaced * Math.max(0, need);
+  };
+
+  const search = (si: number, remaining: number, pieces: number, cost: number) => {
+    if (timedOut) return;
+    if (++nodes % 2048 === 0) {
+      const now = Date.now();
+      if (now > deadline) {
+        timedOut = true;
+        return;
+      }
+      if (run) run.searching(studentsFrom[0], (now - started) / Math.max(1, deadline - started));
+    }
+    if (remaining === 0) {
+      si++;
+      if (si === secs.length) {
+        const total = cost + W.waste * openFree;
+        if (total < bestCost) {
+          bestCost = total;
+          best = plan.slice();
+        }
+        return;
+      }
+      remaining = secs[si].students;
+      pieces = 0;
+    }
+    if (lowerBound(si, remaining, pieces, cost) >= bestCost) return;
+
+    const place = (ri: number, count: number) => {
+      const wasOpen = opened[ri];
+      let added = wasOpen ? 0 : W.room;
+      if (pieces === 0 && count < remaining) added += W.split;
+      if (count < minChunk && (pieces > 0 || count < remaining)) added += W.fragment;
+      if (!wasOpen) {
+        opened[ri] = true;
+        openFree += allRooms[ri].capacity;
+      }
+      used[ri] += count;
+      openFree -= count;
+      limits.add(allRooms[ri].no, secs[si]);
+      plan.push({ si, ri, count });
+      search(si, remaining - count, pieces + 1, cost + added);
+      plan.pop();
+      limits.remove(allRooms[ri].no, secs[si]);
+      used[ri] -= count;
+      openFree += count;
+      if (!wasOpen) {
+        opened[ri] = false;
+        openFree -= allRooms[ri].capacity;
+      }
+    };
+
+    // One representative room per distinct free-space value, separately for open and unopened rooms
+    const openByFree = new Map<number, number>();
+    const closedByCap = new Map<number, number>();
+    allRooms.forEach((room, ri) => {
+      if (!limits.allows(room.no, secs[si])) return;
+      if (opened[ri]) {
+        const free = room.capacity - used[ri];
+        if (free > 0 && !openByFree.has(free)) openByFree.set(free, ri);
+      } else if (!closedByCap.has(room.capacity)) {
+        closedByCap.set(room.capacity, ri);
+      }
+    });
+    if (openByFree.size === 0 && closedByCap.size === 0) {
+      plan.push({ si, ri: -1, count: remaining });
+      search(si, 0, pieces, cost + W.unplaced * remaining);
+      plan.pop();
+      return;
+    }
+    const openFrees = Array.from(openByFree.keys());
+    const closedCaps = Array.from(closedByCap.keys());
+    // Whole placements first (tightest fit), then splits (largest piece first)
+    const moves: [number, number][] = [
+      ...openFrees.filter(f => f >= remaining).sort((a, b) => a - b).map(f => [openByFree.get(f)!, remaining]),
+      ...closedCaps.filter(c => c >= remaining).sort((a, b) => a - b).map(c => [closedByCap.get(c)!, remaining]),
+      ...openFrees.filter(f => f < remaining).sort((a, b) => b - a).map(f => [openByFree.get(f)!, f]),
+      ...closedCaps.filter(c => c < remaining).sort((a, b) => b - a).map(c => [closedByCap.get(c)!, c]),
+    ] as [number, number][];
+    if (moves.length > width) narrowed = true;
+    moves.slice(0, width).forEach(([ri, count]) => place(ri, count));
+  };
+
+  // Iterative widening: search with only the best `width` moves per step, then widen until
+  // a pass explores every move (the plan is then optimal for this move set) or time runs out
+  width = 1;
+  narrowed = true;
+  while (secs.length > 0 && narrowed && !timedOut) {
+    narrowed = false;
+    search(-1, 0, 0, 0);
+    width++;
+  }
+
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  for (const { si, ri, count } of best) {
+    const s = secs[si];
+    if (ri === -1) {
+      result.push({
+        branch: s.branch,
+        section: s.section,
+        roomNo: "NO SPACE",
+        students: count,
+        error: true
+      });
+      continue;
+    }
+    const room = allRooms[ri];
+    const usedSeats = roomUsage[room.no] || 0;
+    result.push({
+      branch: s.branch,
+      section: s.section,
+      roomNo: room.no,
+      students: count,
+      startSeat: usedSeats + 1,
+      endSeat: usedSeats + count,
+      partial: count !== s.students,
+      blockName: room.blockName
+    });
+    roomUsage[room.no] = usedSeats + count;
+  }
+  const report: OptimiserReport = { cost: bestCost, nodes, complete: !narrowed && !timedOut };
+  return { result, roomUsage, report };
+}
+
+// Interleaved (anti-copying) seating mode
+// Each room's seats are split into the two colours of a checkerboard over its row layout.
+// One colour is filled with a section and the other with a different section, so no student
+// sits beside or directly behind a classmate. A section is only split into a colour when both the piece
+// and the rest are at least minChunk. Only when every room is exhausted are leftover students placed in
+// remaining empty seats, where conflicts may occur (reported per room). A section gets one chunk per room.
+export function allocateInterleaved(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings
+): AllocationOutcome {
+  const { minChunk, usePriorityOrder } = settings;
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  const allRooms: (Room & { blockName: string })[] = orderRooms(roomBlocks, usePriorityOrder);
+  const limits = createRoomLimits(allRooms, settings);
+  const sectionLeft: (Section & { total: number })[] = sections
+    .filter(s => s.branch && s.section && s.students > 0)
+    .map(s => ({ ...s, total: s.students }));
+  sectionLeft.sort((a, b) => b.students - a.students);
+  const freeSeats: Record<string, number[]> = {};
+  const sectionKey = (s: { branch: string; section: string }) => `${s.branch}-${s.section}`;
+
+  const place = (s: Section & { total: number }, room: Room & { blockName: string }, seats: number[]) => {
+    const existing = result.findIndex(a => a.roomNo === room.no && sectionKey(a) === sectionKey(s));
+    const chunkSeats = [...(existing === -1 ? [] : result[existing].seats!), ...seats].sort((a, b) => a - b);
+    const chunk: Allocation = {
+      branch: s.branch,
+      section: s.section,
+      roomNo: room.no,
+      students: chunkSeats.length,
+      startSeat: chunkSeats[0],
+      endSeat: chunkSeats[chunkSeats.length - 1],
+      seats: chunkSeats,
+      partial: chunkSeats.length !== s.total,
+      blockName: room.blockName
+    };
+    if (existing === -1) result.push(chunk);
+    else result[existing] = chunk;
+    roomUsage[room.no] = (roomUsage[room.no] || 0) + seats.length;
+    limits.add(room.no, s);
+    s.students -= seats.length;
+    if (s.students === 0) sectionLeft.splice(sectionLeft.indexOf(s), 1);
+  };
+
+  for (const room of allRooms) {
+    if (sectionLeft.length === 0) break;
+    const classes = getSeatClasses(room);
+    const classSections: Set<string>[] = [new Set(), new Set()];
+    freeSeats[room.no] = [];
+    classes.forEach((classSeats, c) => {
+      let cursor = 0;
+      // Students of `sec` to put on the rest of this colour: all of them, or a split leaving minChunk
+      // for later (0 when the split would leave a piece below minChunk on either side)
+      const fillFor = (sec: Section) => {
+        const free = classSeats.length - cursor;
+        if (sec.students <= free) return sec.students;
+        const chunk = Math.min(free, sec.students - minChunk);
+        return chunk >= minChunk ? chunk : 0;
+      };
+      while (cursor < classSeats.length) {
+        // A section already seated in the other colour of this room would end up next to itself
+        const s = sectionLeft.find(sec => !classSections[1 - c].has(sectionKey(sec)) && limits.allows(room.no, sec) && fillFor(sec) > 0);
+        if (!s) break;
+        const chunk = fillFor(s);
+        place(s, room, classSeats.slice(cursor, cursor + chunk));
+        classSections[c].add(sectionKey(s));
+        cursor += chunk;
+      }
+      freeSeats[room.no].push(...classSeats.slice(cursor));
+    });
+  }
+
+  // Out of rooms: seat the rest in whatever seats are still empty, accepting conflicts
+  for (const room of allRooms) {
+    const free = (freeSeats[room.no] || []).sort((a, b) => a - b);
+    while (free.length > 0 && sectionLeft.length > 0) {
+      const s = sectionLeft.find(sec => limits.allows(room.no, sec));
+      if (!s) break;
+      place(s, room, free.splice(0, Math.min(s.students, free.length)));
+    }
+  }
+
+  for (const s of sectionLeft) {
+    result.push({
+      branch: s.branch,
+      section: s.section,
+      roomNo: "NO SPACE",
+      students: s.students,
+      error: true
+    });
+  }
+  return { result, roomUsage };
+}
+
+function runAlgorithm(sections: Section[], roomBlocks: RoomBlock[], settings: AllocationSettings, run?: Run): AllocationOutcome {
+  if (settings.algorithm === 1) return allocateSimpleGreedy(sections, roomBlocks, settings);
+  if (settings.algorithm === 2) return allocateGreedyMinChunk(sections, roomBlocks, settings);
+  if (settings.algorithm === 3) return allocateGreedyLookahead(sections, roomBlocks, settings);
+  if (settings.algorithm === 4) return allocateBestFitFFD(sections, roomBlocks, settings);
+  return allocateOptimised(sections, roomBlocks, settings, run);
+}
+
+// One pass of the selected algorithm (interleaved seating overrides the algorithm choice).
+// Rooms may carry blocked seats (see applyAvailability); seat numbers in the result are physical.
+// Each chunk carries its section's paper code.
+function allocatePass(sections: Section[], roomBlocks: RoomBlock[], settings: AllocationSettings, run?: Run): AllocationOutcome {
+  const outcome = settings.interleaved
+    ? allocateInterleaved(sections, roomBlocks, settings)
+    : runAlgorithm(sections, roomBlocks, settings, run);
+  if (run) run.passed(outcome.result.filter(a => !a.error).reduce((sum, a) => sum + a.students, 0));
+  const papers: Record<string, string> = {};
+  sections.forEach(s => { if (s.paper) papers[`${s.branch}-${s.section}`] = s.paper; });
+  const withPapers = (result: Allocation[]) =>
+    result.map(a => (papers[`${a.branch}-${a.section}`] ? { ...a, paper: papers[`${a.branch}-${a.section}`] } : a));
+  if (settings.interleaved) return { ...outcome, result: withPapers(outcome.result) };
+  return { ...outcome, result: withPapers(mapToPhysicalSeats(outcome.result, roomBlocks)) };
+}
+
+// Run a pass on the seats earlier passes left free: seats already taken count as blocked for it,
+// and the sections seated in them count towards the room's paper and section limits
+function allocateInRemaining(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  taken: Allocation[],
+  settings: AllocationSettings,
+  place: (sections: Section[], roomBlocks: RoomBlock[], settings: AllocationSettings, run?: Run) => AllocationOutcome = allocatePass,
+  run?: Run
+): AllocationOutcome {
+  const takenSeats: Record<string, number[]> = {};
+  const occupants: Record<string, Room['occupants']> = {};
+  for (const alloc of taken) {
+    if (alloc.error || !alloc.startSeat || !alloc.endSeat) continue;
+    const seats = alloc.seats || Array.from({ length: alloc.endSeat - alloc.startSeat + 1 }, (_, i) => alloc.startSeat! + i);
+    if (!takenSeats[alloc.roomNo]) {
+      takenSeats[alloc.roomNo] = [];
+      occupants[alloc.roomNo] = [];
+    }
+    takenSeats[alloc.roomNo].push(...seats);
+    occupants[alloc.roomNo]!.push({ branch: alloc.branch, section: alloc.section, paper: alloc.paper });
+  }
+  const reduced = roomBlocks.map(block => ({
+    ...block,
+    rooms: block.rooms
+      .map(room => {
+        const seats = takenSeats[room.no];
+        if (!seats) return room;
+        return {
+          ...room,
+          capacity: room.capacity - seats.length,
+          blockedSeats: [...(room.blockedSeats || []), ...seats],
+          occupants: [...(room.occupants || []), ...(occupants[room.no] || [])],
+        };
+      })
+      .filter(room => room.capacity > 0),
+  }));
+  return place(sections, reduced, settings, run);
+}
+
+const addUsage = (roomUsage: Record<string, number>, outcome: AllocationOutcome) => {
+  Object.keys(outcome.roomUsage).forEach(roomNo => {
+    roomUsage[roomNo] = (roomUsage[roomNo] || 0) + outcome.roomUsage[roomNo];
+  });
+};
+
+const combineReports = (reports: OptimiserReport[]): OptimiserReport | undefined =>
+  reports.length > 0
+    ? {
+        cost: reports.reduce((sum, r) => sum + r.cost, 0),
+        nodes: reports.reduce((sum, r) => sum + r.nodes, 0),
+        complete: reports.every(r => r.complete),
+      }
+    : undefined;
+
+// Locality: whole sections are first packed into blocks (largest section first, into the first block
+// with enough free seats), then the selected algorithm runs block by block on its own sections.
+// Sections too big for any block, and students a block pass could not seat, are placed last in the
+// seats still free anywhere, so a section only spreads over blocks when it has to.
+function allocateWithLocality(sections: Section[], roomBlocks: RoomBlock[], settings: AllocationSettings, run?: Run): AllocationOutcome {
+  const blockCapacity = (block: RoomBlock) => block.rooms.reduce((sum, r) => sum + r.capacity, 0);
+  const blocks = roomBlocks.filter(block => block.rooms.length > 0);
+  if (!settings.usePriorityOrder) blocks.sort((a, b) => blockCapacity(b) - blockCapacity(a));
+  const freeSeats = blocks.map(blockCapacity);
+  const assigned: Section[][] = blocks.map(() => []);
+  const leftover: Section[] = [];
+  const valid = sections.filter(s => s.branch && s.section && s.students > 0);
+  for (const section of [...valid].sort((a, b) => b.students - a.students)) {
+    const idx = freeSeats.findIndex(free => free >= section.students);
+    if (idx === -1) {
+      leftover.push(section);
+      continue;
+    }
+    assigned[idx].push(section);
+    freeSeats[idx] -= section.students;
+  }
+
+  // The optimiser's time limit is shared between the passes
+  const passes = assigned.filter(group => group.length > 0).length + 1;
+  const passSettings = { ...settings, optimiserTimeLimit: settings.optimiserTimeLimit / passes };
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  const reports: OptimiserReport[] = [];
+  blocks.forEach((block, idx) => {
+    if (assigned[idx].length === 0) return;
+    const outcome = allocatePass(assigned[idx], [block], passSettings, run);
+    if (outcome.report) reports.push(outcome.report);
+    for (const alloc of outcome.result) {
+      if (!alloc.error) {
+        result.push(alloc);
+        continue;
+      }
+      const section = assigned[idx].find(s => s.branch === alloc.branch && s.section === alloc.section);
+      if (section) leftover.push({ ...section, students: alloc.students });
+    }
+    addUsage(roomUsage, outcome);
+  });
+
+  if (leftover.length > 0) {
+    const outcome = allocateInRemaining(leftover, roomBlocks, result, passSettings, allocatePass, run);
+    if (outcome.report) reports.push(outcome.report);
+    result.push(...outcome.result);
+    addUsage(roomUsage, outcome);
+  }
+
+  // A section seated partly by its block pass and partly by the leftover pass is split
+  const chunks: Record<string, number> = {};
+  result.forEach(a => { if (!a.error) chunks[`${a.branch}-${a.section}`] = (chunks[`${a.branch}-${a.section}`] || 0) + 1; });
+  const final = result.map(a => (!a.error && chunks[`${a.branch}-${a.section}`] > 1 ? { ...a, partial: true } : a));
+  const report = combineReports(reports);
+  return { result: final, roomUsage, ...(report ? { report } : {}) };
+}
+
+function placeSections(sections: Section[], roomBlocks: RoomBlock[], settings: AllocationSettings, run?: Run): AllocationOutcome {
+  return settings.keepSectionsTogether
+    ? allocateWithLocality(sections, roomBlocks, settings, run)
+    : allocatePass(sections, roomBlocks, settings, run);
+}
+
+// Place sections in the seats `taken` leaves free. Sections with room requirements go first, most
+// demanding first, and only into rooms that meet every requirement; students no such room can take are
+// left unplaced with the requirements on their error row. Everyone else is placed in the seats left over.
+function allocateDemand(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  taken: Allocation[],
+  settings: AllocationSettings,
+  run?: Run
+): AllocationOutcome {
+  const valid = sections.filter(s => s.branch && s.section && s.students > 0);
+  const constrained = valid.filter(s => s.requirements && s.requirements.length > 0);
+  if (constrained.length === 0 && taken.length === 0) return placeSections(sections, roomBlocks, settings, run);
+
+  const groups: Record<string, Section[]> = {};
+  constrained.forEach(s => {
+    const key = requirementKey(s.requirements);
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(s);
+  });
+  const result: Allocation[] = [];
+  const roomUsage: Record<string, number> = {};
+  const reports: OptimiserReport[] = [];
+  const byDemand = Object.values(groups).sort((a, b) => b[0].requirements!.length - a[0].requirements!.length);
+  for (const group of byDemand) {
+    const requirements = group[0].requirements!;
+    const suitable = roomBlocks.map(block => ({ ...block, rooms: block.rooms.filter(room => meetsRequirements(room, requirements)) }));
+    const outcome = allocateInRemaining(group, suitable, [...taken, ...result], settings, allocatePass, run);
+    if (outcome.report) reports.push(outcome.report);
+    result.push(...outcome.result.map(alloc => ({ ...alloc, requirements })));
+    addUsage(roomUsage, outcome);
+  }
+  const rest = valid.filter(s => !s.requirements || s.requirements.length === 0);
+  if (rest.length > 0) {
+    const outcome = allocateInRemaining(rest, roomBlocks, [...taken, ...result], settings, placeSections, run);
+    if (outcome.report) reports.push(outcome.report);
+    result.push(...outcome.result);
+    addUsage(roomUsage, outcome);
+  }
+  // Unplaced rows last, as the single-pass allocators return them
+  const ordered = [...result.filter(a => !a.error), ...result.filter(a => a.error)];
+  const report = combineReports(reports);
+  return { result: ordered, roomUsage, ...(report ? { report } : {}) };
+}
+
+// Emergency overflow: students the regular run left unplaced are seated in stages, each taking only
+// what the previous stage could not place: standby rooms first, then every room with the minimum chunk
+// relaxed to 1, then up to `emergencyExtraSeats` benches beyond capacity per room. Chunks placed by the
+// fallback are marked emergency, and the report lists the relaxations that were actually used.
+function allocateEmergency(
+  regular: AllocationOutcome,
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings,
+  taken: Allocation[],
+  run?: Run
+): AllocationOutcome {
+  let placed = regular.result.filter(a => !a.error);
+  let pending = regular.result.filter(a => a.error);
+  const roomUsage = { ...regular.roomUsage };
+  const reports: OptimiserReport[] = regular.report ? [regular.report] : [];
+  const emergencyChunks: Allocation[] = [];
+  const stage = (blocks: RoomBlock[], stageSettings: AllocationSettings): number => {
+    if (pending.length === 0) return 0;
+    const demand: Section[] = pending.map((a, i) => ({
+      id: -1 - i,
+      branch: a.branch,
+      section: a.section,
+      students: a.students,
+      ...(a.paper ? { paper: a.paper } : {}),
+      ...(a.requirements ? { requirements: a.requirements } : {}),
+    }));
+    const outcome = allocateDemand(demand, blocks, [...taken, ...placed], stageSettings, run);
+    if (outcome.report) reports.push(outcome.report);
+    const seated = outcome.result.filter(a => !a.error).map(a => ({ ...a, emergency: true }));
+    placed = [...placed, ...seated];
+    pending = outcome.result.filter(a => a.error);
+    emergencyChunks.push(...seated);
+    addUsage(roomUsage, outcome);
+    return seated.length;
+  };
+
+  stage(roomBlocks.map(block => ({ ...block, rooms: block.rooms.filter(room => room.standby) })), settings);
+  const relaxed = settings.emergencyRelaxMinChunk && settings.minChunk > 1;
+  let relaxedChunks = relaxed ? stage(roomBlocks, { ...settings, minChunk: 1 }) : 0;
+  if (settings.emergencyExtraSeats > 0) {
+    // Extra benches have no place in the row layout, so this stage seats students in plain order
+    const widened = roomBlocks.map(block => ({
+      ...block,
+      rooms: block.rooms.map(room => ({ ...room, capacity: room.capacity + settings.emergencyExtraSeats })),
+    }));
+    const chunks = stage(widened, { ...settings, minChunk: relaxed ? 1 : settings.minChunk, interleaved: false });
+    if (relaxed) relaxedChunks += chunks;
+  }
+
+  const rooms = roomBlocks.flatMap(b => b.rooms);
+  const standby = new Set(rooms.filter(room => room.standby).map(room => room.no));
+  const occupied = { ...roomUsage };
+  taken.forEach(a => { if (!a.error) occupied[a.roomNo] = (occupied[a.roomNo] || 0) + a.students; });
+  const overCapacity: Record<string, number> = {};
+  rooms.forEach(room => {
+    if ((occupied[room.no] || 0) > room.capacity) overCapacity[room.no] = occupied[room.no] - room.capacity;
+  });
+  const emergency: EmergencyReport = {
+    students: emergencyChunks.reduce((sum, a) => sum + a.students, 0),
+    standbyRooms: Array.from(new Set(emergencyChunks.filter(a => standby.has(a.roomNo)).map(a => a.roomNo))),
+    relaxedMinChunk: relaxedChunks > 0,
+    overCapacity,
+    unplaced: pending.reduce((sum, a) => sum + a.students, 0),
+  };
+  // A section seated partly by the regular run and partly by the fallback is split
+  const chunks: Record<string, number> = {};
+  placed.forEach(a => { chunks[`${a.branch}-${a.section}`] = (chunks[`${a.branch}-${a.section}`] || 0) + 1; });
+  const result = [...placed.map(a => (chunks[`${a.branch}-${a.section}`] > 1 ? { ...a, partial: true } : a)), ...pending];
+  const report = combineReports(reports);
+  return { result, roomUsage, ...(report ? { report } : {}), emergency };
+}
+
+// Run the allocation for the settings. Standby rooms are left empty unless emergency mode is on and
+// the regular run leaves students without a seat. Seats held by `taken` (chunks kept from an earlier
+// plan) stay as they are; the result only holds the new chunks. The optimiser time limit covers the
+// whole run, and `onProgress` is called with the students seated so far out of all students.
+export function runAllocation(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings,
+  taken: Allocation[] = [],
+  onProgress?: (done: number, total: number) => void
+): AllocationOutcome {
+  const run = createRun(sections, settings, onProgress);
+  const regularBlocks = roomBlocks.map(block => ({ ...block, rooms: block.rooms.filter(room => !room.standby) }));
+  const regular = allocateDemand(sections, regularBlocks, taken, settings, run);
+  if (!settings.emergencyMode || !regular.result.some(a => a.error)) return regular;
+  return allocateEmergency(regular, roomBlocks, settings, taken, run);
+}
+
+// Extra blocks each section is spread over, summed over sections
+export function computeLocalityPenalty(result: Allocation[]): number {
+  const blocks: Record<string, Set<string>> = {};
+  for (const alloc of result) {
+    if (alloc.error || !alloc.blockName) continue;
+    const key = `${alloc.branch}-${alloc.section}`;
+    if (!blocks[key]) blocks[key] = new Set();
+    blocks[key].add(alloc.blockName);
+  }
+  return Object.values(blocks).reduce((sum, set) => sum + set.size - 1, 0);
+}
+
+export function computeStats(sections: Section[], { result, roomUsage }: AllocationOutcome, roomBlocks: RoomBlock[]): Stats {
+  const totalStudents = sections.reduce((sum, s) => sum + (s.students || 0), 0);
+  const allocatedStudents = result.filter(r => !r.error).reduce((sum, r) => sum + r.students, 0);
+  const roomsUsed = new Set(result.filter(r => !r.error).map(r => r.roomNo)).size;
+  const blocksUsed = new Set(result.filter(r => !r.error && r.blockName).map(r => r.blockName)).size;
+  // Capacity is the effective capacity of the rooms used; blocked seats in them are counted separately
+  const rooms: Record<string, Room> = {};
+  roomBlocks.forEach(block => block.rooms.forEach(room => { rooms[room.no] = room; }));
+  let totalCapacity = 0;
+  let blockedSeats = 0;
+  for (const roomNo of Object.keys(roomUsage)) {
+    const room = rooms[roomNo];
+    if (room) {
+      totalCapacity += room.capacity;
+      blockedSeats += room.blockedSeats?.length || 0;
+    }
+  }
+  const wastedSeats = totalCapacity - allocatedStudents;
+  return {
+    totalStudents,
+    allocatedStudents,
+    roomsUsed,
+    blocksUsed,
+    totalCapacity,
+    wastedSeats,
+    blockedSeats,
+    localityPenalty: computeLocalityPenalty(result),
+    efficiency: totalCapacity > 0 ? ((allocatedStudents / totalCapacity) * 100).toFixed(1) : '0'
+  };
+}
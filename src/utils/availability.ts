@@ -0,0 +1,49 @@
+import { RoomBlock, Allocation } from '../types';
+
+// Rooms eligible for a run: unavailable rooms are dropped, blocked seats are taken off each room's capacity
+// and standby rooms are marked so only the emergency fallback uses them
+export function applyAvailability(
+  roomBlocks: RoomBlock[],
+  unavailableRooms: string[],
+  blockedSeats: Record<string, number[]>,
+  standbyRooms: string[] = []
+): RoomBlock[] {
+  const unavailable = new Set(unavailableRooms);
+  return roomBlocks.map(block => ({
+    ...block,
+    rooms: block.rooms
+      .filter(room => !unavailable.has(room.no))
+      .map(room => {
+        const marked = standbyRooms.includes(room.no) ? { ...room, standby: true } : room;
+        const blocked = (blockedSeats[room.no] || []).filter(seat => seat >= 1 && seat <= room.capacity);
+        if (blocked.length === 0) return marked;
+        return { ...marked, capacity: room.capacity - blocked.length, blockedSeats: blocked };
+      }),
+  }));
+}
+
+// Algorithms number seats 1..capacity of the reduced room. Translate those ranges to physical seat numbers
+// that skip blocked seats; a range interrupted by a blocked seat becomes an explicit seat list.
+export function mapToPhysicalSeats(result: Allocation[], roomBlocks: RoomBlock[]): Allocation[] {
+  const freeSeats: Record<string, number[]> = {};
+  for (const block of roomBlocks) {
+    for (const room of block.rooms) {
+      if (!room.blockedSeats || room.blockedSeats.length === 0) continue;
+      const blocked = new Set(room.blockedSeats);
+      const total = room.capacity + blocked.size;
+      freeSeats[room.no] = [];
+      for (let seat = 1; seat <= total; seat++) {
+        if (!blocked.has(seat)) freeSeats[room.no].push(seat);
+      }
+    }
+  }
+  return result.map(alloc => {
+    const free = freeSeats[alloc.roomNo];
+    if (!free || alloc.error || alloc.seats || !alloc.startSeat || !alloc.endSeat) return alloc;
+    const seats = free.slice(alloc.startSeat - 1, alloc.endSeat);
+    const startSeat = seats[0];
+    const endSeat = seats[seats.length - 1];
+    const contiguous = endSeat - startSeat + 1 === seats.length;
+    return { ...alloc, startSeat, endSeat, ...(contiguous ? {} : { seats }) };
+  });
+}
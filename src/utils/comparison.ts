@@ -0,0 +1,37 @@
+import { Section, RoomBlock, Allocation, AllocationSettings, AlgorithmComparison } from '../types';
+import { runAllocation, computeStats } from './allocators';
+
+// Sections whose students were placed in more than one room
+export function countSplitSections(result: Allocation[]): number {
+  const rooms: Record<string, number> = {};
+  for (const alloc of result) {
+    if (alloc.error) continue;
+    const key = `${alloc.branch}-${alloc.section}`;
+    rooms[key] = (rooms[key] || 0) + 1;
+  }
+  return Object.values(rooms).filter(count => count > 1).length;
+}
+
+// Run each algorithm on the same sections and rooms with the current settings. Interleaving is
+// switched off because it replaces the algorithm choice rather than refining it.
+// `onProgress` is called after each algorithm with the number done so far.
+export function compareAlgorithms(
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings,
+  algorithms: number[],
+  onProgress?: (done: number, total: number) => void
+): AlgorithmComparison[] {
+  return algorithms.map((algorithm, idx) => {
+    const outcome = runAllocation(sections, roomBlocks, { ...settings, algorithm, interleaved: false });
+    const stats = computeStats(sections, outcome, roomBlocks);
+    if (onProgress) onProgress(idx + 1, algorithms.length);
+    return {
+      algorithm,
+      outcome,
+      stats,
+      splitSections: countSplitSections(outcome.result),
+      unallocatedStudents: stats.totalStudents - stats.allocatedStudents,
+    };
+  });
+}
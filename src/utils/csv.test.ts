@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseCsvRows, parseCsv, findColumn } from './csv';
+
+describe('parseCsvRows', () => {
+  it('reads quoted fields with embedded commas, quotes and line breaks', () => {
+    const rows = parseCsvRows('name,note\n"Rao, A","said ""hi"""\n"Two\nlines",x\n');
+    expect(rows.map(r => r.cells)).toEqual([['name', 'note'], ['Rao, A', 'said "hi"'], ['Two\nlines', 'x']]);
+    expect(rows.map(r => r.quoted)).toEqual([false, true, true]);
+  });
+
+  it('handles CRLF and bare CR line endings and keeps source line numbers', () => {
+    const rows = parseCsvRows('a,b\r\n1,2\r\n\r\n3,4\r5,6');
+    expect(rows.map(r => r.cells)).toEqual([['a', 'b'], ['1', '2'], ['3', '4'], ['5', '6']]);
+    expect(rows.map(r => r.line)).toEqual([1, 2, 4, 5]);
+  });
+
+  it('trims cells, keeps empty cells and drops blank lines', () => {
+    expect(parseCsv(' a , ,c\n,,\n')).toEqual([['a', '', 'c']]);
+  });
+});
+
+describe('findColumn', () => {
+  it('matches any accepted header name, ignoring case and spaces', () => {
+    expect(findColumn(['S.NO', ' Roll No ', 'Name'], ['roll number', 'roll no'])).toBe(1);
+    expect(findColumn(['Name'], ['branch'])).toBe(-1);
+  });
+});
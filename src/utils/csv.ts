@@ -0,0 +1,71 @@
+export interface CsvRow {
+  cells: string[];
+  line: number;     // 1-based line the row starts on
+  quoted: boolean;  // at least one cell was wrapped in quotes
+}
+
+// Minimal RFC 4180 style CSV parser: handles quoted fields, escaped quotes ("") and CRLF line endings.
+// Blank lines are dropped and every cell is trimmed.
+export function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some(c => c !== '')) rows.push({ cells: row, line: rowLine, quoted });
+    row = [];
+    cell = '';
+    quoted = false;
+  };
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') line++;
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') {
+        i++;
+        line++;
+      } else if (ch === '\r') {
+        line++;
+      }
+      endRow();
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+export function parseCsv(text: string): string[][] {
+  return parseCsvRows(text).map(r => r.cells);
+}
+
+// Find a column by any of its accepted header names (case-insensitive), or -1
+export function findColumn(headers: string[], names: string[]): number {
+  const normalised = headers.map(h => h.trim().toLowerCase());
+  for (const name of names) {
+    const idx = normalised.indexOf(name.toLowerCase());
+    if (idx !== -1) return idx;
+  }
+  return -1;
+}
@@ -0,0 +1,180 @@
+import { Section, Room, RoomBlock, Allocation, AllocationSettings } from '../types';
+import { describeRequirements, meetsRequirements, requirementKey } from './requirements';
+
+export const UNPLACED_ROOM = 'NO SPACE';
+
+const sectionKey = (a: { branch: string; section: string }) => `${a.branch}-${a.section}`;
+// Chunks only merge when they are the same section placed for the same room requirements
+const chunkKey = (a: Allocation) => `${sectionKey(a)}|${requirementKey(a.requirements)}`;
+
+// Students seated per room, in the shape the allocators report it
+export function buildRoomUsage(allocation: Allocation[]): Record<string, number> {
+  const roomUsage: Record<string, number> = {};
+  for (const alloc of allocation) {
+    if (alloc.error) continue;
+    roomUsage[alloc.roomNo] = (roomUsage[alloc.roomNo] || 0) + alloc.students;
+  }
+  return roomUsage;
+}
+
+// Lay the chunks of each touched room out back to back from the front, skipping blocked seats.
+// A room pushed over capacity gets seat numbers past its last seat so the overflow stays visible.
+function reseatRooms(allocation: Allocation[], roomNos: string[], roomBlocks: RoomBlock[]): Allocation[] {
+  const rooms: Record<string, { room: Room; blockName: string }> = {};
+  roomBlocks.forEach(block => block.rooms.forEach(room => { rooms[room.no] = { room, blockName: block.name }; }));
+  const cursors: Record<string, number> = {};
+  const freeSeats: Record<string, number[]> = {};
+  for (const roomNo of roomNos) {
+    const entry = rooms[roomNo];
+    if (!entry) continue;
+    const blocked = new Set(entry.room.blockedSeats || []);
+    const total = entry.room.capacity + blocked.size;
+    freeSeats[roomNo] = [];
+    for (let seat = 1; seat <= total; seat++) {
+      if (!blocked.has(seat)) freeSeats[roomNo].push(seat);
+    }
+    cursors[roomNo] = 0;
+  }
+
+  return allocation.map(alloc => {
+    const free = freeSeats[alloc.roomNo];
+    if (alloc.error || !free) return alloc;
+    const total = rooms[alloc.roomNo].room.capacity + (rooms[alloc.roomNo].room.blockedSeats?.length || 0);
+    const seats: number[] = [];
+    for (let i = 0; i < alloc.students; i++) {
+      const idx = cursors[alloc.roomNo]++;
+      seats.push(idx < free.length ? free[idx] : total + (idx - free.length) + 1);
+    }
+    const startSeat = seats[0];
+    const endSeat = seats[seats.length - 1];
+    const { seats: _previous, ...rest } = alloc;
+    const contiguous = endSeat - startSeat + 1 === seats.length;
+    return { ...rest, startSeat, endSeat, blockName: rooms[alloc.roomNo].blockName, ...(contiguous ? {} : { seats }) };
+  });
+}
+
+// Put a chunk into a room, merging it with a matching chunk already there
+function addChunk(allocation: Allocation[], chunk: Allocation): Allocation[] {
+  const existing = allocation.findIndex(a => a.roomNo === chunk.roomNo && chunkKey(a) === chunkKey(chunk));
+  if (existing === -1) {
+    // Unplaced rows stay at the end of the list, where the allocators put them
+    const firstError = allocation.findIndex(a => a.error);
+    if (chunk.error || firstError === -1) return [...allocation, chunk];
+    return [...allocation.slice(0, firstError), chunk, ...allocation.slice(firstError)];
+  }
+  return allocation.map((a, i) => (i === existing ? { ...a, students: a.students + chunk.students } : a));
+}
+
+// Refresh the partial flags against section totals and re-seat the rooms an edit touched
+function finishEdit(allocation: Allocation[], touched: string[], sections: Section[], roomBlocks: RoomBlock[]): Allocation[] {
+  const totals: Record<string, number> = {};
+  sections.forEach(s => { totals[sectionKey(s)] = s.students; });
+  const flagged = allocation
+    .filter(a => a.students > 0)
+    .map(a => (a.error ? a : { ...a, partial: a.students !== totals[sectionKey(a)] }));
+  return reseatRooms(flagged, touched, roomBlocks);
+}
+
+// Move a whole chunk to another room, or to UNPLACED_ROOM to take it out of the plan
+export function moveChunk(
+  allocation: Allocation[],
+  index: number,
+  targetRoomNo: string,
+  sections: Section[],
+  roomBlocks: RoomBlock[]
+): Allocation[] {
+  const chunk = allocation[index];
+  if (!chunk || chunk.roomNo === targetRoomNo) return allocation;
+  const remaining = allocation.filter((_, i) => i !== index);
+  const toUnplaced = targetRoomNo === UNPLACED_ROOM;
+  const { startSeat: _start, endSeat: _end, seats: _seats, partial: _partial, error: _error, blockName: _block, ...base } = chunk;
+  const moved: Allocation = toUnplaced
+    ? { ...base, roomNo: UNPLACED_ROOM, error: true }
+    : { ...base, roomNo: targetRoomNo };
+  return finishEdit(addChunk(remaining, moved), [chunk.roomNo, targetRoomNo], sections, roomBlocks);
+}
+
+// Split a chunk in two within its room; the first part keeps `count` students
+export function splitChunk(
+  allocation: Allocation[],
+  index: number,
+  count: number,
+  sections: Section[],
+  roomBlocks: RoomBlock[]
+): Allocation[] {
+  const chunk = allocation[index];
+  if (!chunk || count <= 0 || count >= chunk.students) return allocation;
+  const split = [
+    ...allocation.slice(0, index),
+    { ...chunk, students: count },
+    { ...chunk, students: chunk.students - count },
+    ...allocation.slice(index + 1),
+  ];
+  return finishEdit(split, [chunk.roomNo], sections, roomBlocks);
+}
+
+// Merge every matching chunk of the same section in the chunk's room back into one
+export function mergeChunks(allocation: Allocation[], index: number, sections: Section[], roomBlocks: RoomBlock[]): Allocation[] {
+  const chunk = allocation[index];
+  if (!chunk) return allocation;
+  const same = (a: Allocation) => a.roomNo === chunk.roomNo && chunkKey(a) === chunkKey(chunk);
+  const students = allocation.filter(same).reduce((sum, a) => sum + a.students, 0);
+  const merged = allocation
+    .map((a, i) => (i === index ? { ...a, students } : a))
+    .filter((a, i) => i === index || !same(a));
+  return finishEdit(merged, [chunk.roomNo], sections, roomBlocks);
+}
+
+// Problems a plan can be left with after manual edits: rooms over capacity, chunks smaller than
+// the minimum of a section that was split anyway, chunks moved to a room that lacks their
+// requirements, rooms over the paper or section limits, and sections with students still unplaced
+export function checkAllocation(
+  allocation: Allocation[],
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  minChunk: number,
+  { maxPapersPerRoom, maxSectionsPerRoom }: Pick<AllocationSettings, 'maxPapersPerRoom' | 'maxSectionsPerRoom'> = { maxPapersPerRoom: 0, maxSectionsPerRoom: 0 }
+): string[] {
+  const warnings: string[] = [];
+  const roomUsage = buildRoomUsage(allocation);
+  for (const block of roomBlocks) {
+    for (const room of block.rooms) {
+      const used = roomUsage[room.no] || 0;
+      if (used > room.capacity) {
+        warnings.push(`Room ${room.no} holds ${used} students but has ${room.capacity} seats (${used - room.capacity} over capacity).`);
+      }
+      const inRoom = allocation.filter(a => !a.error && a.roomNo === room.no);
+      const sectionCount = new Set(inRoom.map(sectionKey)).size;
+      const paperCount = new Set(inRoom.filter(a => a.paper).map(a => a.paper)).size;
+      if (maxSectionsPerRoom > 0 && sectionCount > maxSectionsPerRoom) {
+        warnings.push(`Room ${room.no} has ${sectionCount} sections, more than the limit of ${maxSectionsPerRoom}.`);
+      }
+      if (maxPapersPerRoom > 0 && paperCount > maxPapersPerRoom) {
+        warnings.push(`Room ${room.no} has ${paperCount} different papers, more than the limit of ${maxPapersPerRoom}.`);
+      }
+    }
+  }
+  const rooms: Record<string, Room> = {};
+  roomBlocks.forEach(block => block.rooms.forEach(room => { rooms[room.no] = room; }));
+  const placedBySection: Record<string, number> = {};
+  for (const alloc of allocation) {
+    if (!alloc.error) placedBySection[sectionKey(alloc)] = (placedBySection[sectionKey(alloc)] || 0) + alloc.students;
+    if (!alloc.error && alloc.partial && alloc.students < minChunk) {
+      warnings.push(`${sectionKey(alloc)} has only ${alloc.students} student(s) in room ${alloc.roomNo}, below the minimum chunk of ${minChunk}.`);
+    }
+    const room = rooms[alloc.roomNo];
+    if (!alloc.error && room && alloc.requirements && !meetsRequirements(room, alloc.requirements)) {
+      warnings.push(`${sectionKey(alloc)}: ${alloc.students} student(s) need ${describeRequirements(alloc.requirements)}, which room ${room.no} does not have.`);
+    }
+  }
+  for (const s of sections) {
+    if (!s.branch || !s.section || s.students <= 0) continue;
+    const placed = placedBySection[sectionKey(s)] || 0;
+    if (placed < s.students) {
+      warnings.push(`${sectionKey(s)} has ${s.students - placed} of ${s.students} student(s) without a seat.`);
+    } else if (placed > s.students) {
+      warnings.push(`${sectionKey(s)} has ${placed} seats allocated for ${s.students} student(s).`);
+    }
+  }
+  return warnings;
+}
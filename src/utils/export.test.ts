@@ -0,0 +1,18 @@
+import { describe, it, expect } from '@jest/globals';
+import { Allocation } from '../types';
+import { buildAllocationRows, toCsv } from './export';
+
+describe('buildAllocationRows', () => {
+  it('exports the exact seats of every chunk', () => {
+    const allocation: Allocation[] = [
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 5, startSeat: 1, endSeat: 5 },
+      { branch: 'ECE', section: '1', roomNo: 'R1', students: 3, startSeat: 6, endSeat: 10, seats: [6, 8, 10] },
+      { branch: 'ME', section: '1', roomNo: 'R2', students: 4, startSeat: 1, endSeat: 5, seats: [1, 2, 4, 5] },
+      { branch: 'IT', section: '1', roomNo: 'NO SPACE', students: 7, error: true },
+    ];
+    const rows = buildAllocationRows(allocation);
+    const seats = rows[0].indexOf('Seats');
+    expect(rows.slice(1).map(row => row[seats])).toEqual(['1-5', '6, 8, 10', '1-2, 4-5', '']);
+    expect(toCsv(rows).split('\r\n')[2]).toBe('ECE,1,,,R1,"6, 8, 10",3,No,No,No');
+  });
+});
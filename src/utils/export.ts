@@ -0,0 +1,100 @@
+import { RoomBlock, Allocation, Stats } from '../types';
+import { SheetCell, buildXlsx } from './xlsx';
+import { countPapers } from './papers';
+import { formatSeatList } from './seating';
+
+// Full allocation table: one row per allocation chunk, including NO SPACE rows. Seats are listed
+// exactly, since interleaved chunks and ranges around blocked seats do not cover every seat in between.
+export function buildAllocationRows(allocation: Allocation[]): SheetCell[][] {
+  const header: SheetCell[] = ['Branch', 'Section', 'Paper', 'Block', 'Room', 'Seats', 'Students', 'Partial', 'Emergency', 'Error'];
+  const rows = allocation.map(a => [
+    a.branch,
+    a.section,
+    a.paper || '',
+    a.blockName || '',
+    a.roomNo,
+    formatSeatList(a),
+    a.students,
+    a.partial ? 'Yes' : 'No',
+    a.emergency ? 'Yes' : 'No',
+    a.error ? 'Yes' : 'No',
+  ]);
+  return [header, ...rows];
+}
+
+// Aggregate statistics followed by per-room utilisation for every room that holds students
+export function buildStatsRows(stats: Stats, allocation: Allocation[], roomBlocks: RoomBlock[]): SheetCell[][] {
+  const rows: SheetCell[][] = [
+    ['Metric', 'Value'],
+    ['Total Students', stats.totalStudents],
+    ['Allocated Students', stats.allocatedStudents],
+    ['Unallocated Students', stats.totalStudents - stats.allocatedStudents],
+    ['Rooms Used', stats.roomsUsed],
+    ['Blocks Used', stats.blocksUsed],
+    ['Total Capacity', stats.totalCapacity],
+    ['Wasted Seats', stats.wastedSeats],
+    ['Blocked Seats (in rooms used)', stats.blockedSeats],
+    ['Locality Penalty (extra blocks per section)', stats.localityPenalty],
+    ['Efficiency (%)', Number(stats.efficiency)],
+    [],
+    ['Block', 'Room', 'Capacity', 'Used', 'Empty', 'Utilisation (%)', 'Sections', 'Question Papers'],
+  ];
+  for (const block of roomBlocks) {
+    for (const room of block.rooms) {
+      const roomAllocations = allocation.filter(a => !a.error && a.roomNo === room.no);
+      if (roomAllocations.length === 0) continue;
+      const used = roomAllocations.reduce((sum, a) => sum + a.students, 0);
+      rows.push([
+        block.name,
+        room.no,
+        room.capacity,
+        used,
+        room.capacity - used,
+        Number(((used / room.capacity) * 100).toFixed(1)),
+        roomAllocations.map(a => `${a.branch}-${a.section}`).join(' '),
+        countPapers(roomAllocations).map(p => `${p.paper} x${p.copies}`).join('; '),
+      ]);
+    }
+  }
+  return rows;
+}
+
+export function toCsv(rows: SheetCell[][]): string {
+  const escape = (cell: SheetCell) => {
+    const value = cell === null ? '' : String(cell);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+// Trigger a browser download of in-memory data
+export function downloadFile(filename: string, data: BlobPart, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function exportAllocationCsv(allocation: Allocation[]) {
+  downloadFile('seating-allocation.csv', toCsv(buildAllocationRows(allocation)), 'text/csv;charset=utf-8');
+}
+
+export function exportStatsCsv(stats: Stats, allocation: Allocation[], roomBlocks: RoomBlock[]) {
+  downloadFile('seating-statistics.csv', toCsv(buildStatsRows(stats, allocation, roomBlocks)), 'text/csv;charset=utf-8');
+}
+
+export function exportXlsx(stats: Stats, allocation: Allocation[], roomBlocks: RoomBlock[]) {
+  const workbook = buildXlsx([
+    { name: 'Allocation', rows: buildAllocationRows(allocation) },
+    { name: 'Statistics', rows: buildStatsRows(stats, allocation, roomBlocks) },
+  ]);
+  downloadFile(
+    'seating-allocation.xlsx',
+    workbook,
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
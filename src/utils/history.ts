@@ -0,0 +1,36 @@
+import { SavedPlan } from '../types';
+
+export const HISTORY_LIMIT = 100;
+
+// One undoable step: the whole working state right after the change, kept as a plan snapshot
+export interface HistoryStep {
+  label: string;
+  at: string;
+  plan: SavedPlan;
+  // Consecutive steps with the same key (typing into one field) collapse into the latest
+  mergeKey?: string;
+}
+
+export interface History {
+  steps: HistoryStep[];
+  current: number; // the step the working state matches; -1 before anything is recorded
+}
+
+export const EMPTY_HISTORY: History = { steps: [], current: -1 };
+
+// Record a step after the current one. Steps that were undone are dropped, and the oldest
+// steps fall off once the history is longer than HISTORY_LIMIT.
+export function addStep(history: History, step: HistoryStep): History {
+  const kept = history.steps.slice(0, history.current + 1);
+  const last = kept[kept.length - 1];
+  const atEnd = history.current === history.steps.length - 1;
+  if (atEnd && last && step.mergeKey && last.mergeKey === step.mergeKey) {
+    kept[kept.length - 1] = step;
+    return { steps: kept, current: kept.length - 1 };
+  }
+  const steps = [...kept, step].slice(-HISTORY_LIMIT);
+  return { steps, current: steps.length - 1 };
+}
+
+export const canUndo = (history: History) => history.current > 0;
+export const canRedo = (history: History) => history.current < history.steps.length - 1;
@@ -0,0 +1,176 @@
+import { describe, it, expect } from '@jest/globals';
+import { Section, RoomBlock, Allocation, AllocationSettings } from '../types';
+import { verifyAllocation, InvariantRule } from './invariants';
+import { runAllocation } from './allocators';
+import { applyAvailability } from './availability';
+import { moveChunk, splitChunk, mergeChunks, UNPLACED_ROOM } from './editing';
+import { reallocateMinimal } from './reallocation';
+import { DEFAULT_SETTINGS } from './plans';
+
+// Seeded generator (mulberry32) so a failing case can be replayed from its seed
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  return { next, int };
+}
+
+interface Scenario {
+  sections: Section[];
+  roomBlocks: RoomBlock[];
+  minChunk: number;
+}
+
+// Random blocks of rooms with row layouts, some blocked seats and standby rooms, and sections whose
+// total demand ranges from well under to well over the capacity
+function randomScenario(seed: number): Scenario {
+  const random = createRandom(seed);
+  const blocks: RoomBlock[] = Array.from({ length: random.int(1, 4) }, (_, b) => ({
+    name: `Block ${b + 1}`,
+    rooms: Array.from({ length: random.int(1, 8) }, (_, r) => {
+      const rows = Array.from({ length: random.int(2, 6) }, () => random.int(4, 12));
+      return { no: `${b + 1}-${r + 1}`, capacity: rows.reduce((sum, n) => sum + n, 0), rows, floor: random.int(0, 3) };
+    }),
+  }));
+  const rooms = blocks.flatMap(b => b.rooms);
+  const capacity = rooms.reduce((sum, r) => sum + r.capacity, 0);
+  const blockedSeats: Record<string, number[]> = {};
+  rooms.forEach(room => {
+    if (random.next() < 0.3) blockedSeats[room.no] = [random.int(1, room.capacity), random.int(1, room.capacity)];
+  });
+  const standby = rooms.filter(() => random.next() < 0.1).map(room => room.no);
+  const count = random.int(1, 12);
+  const load = 0.3 + random.next();
+  const sections: Section[] = Array.from({ length: count }, (_, i) => ({
+    id: i + 1,
+    branch: ['CSE', 'ECE', 'ME', 'IT'][i % 4],
+    section: String(Math.floor(i / 4) + 1),
+    students: random.int(1, Math.max(2, Math.floor((capacity * load * 2) / count))),
+    paper: `P${random.int(1, 3)}`,
+  }));
+  return { sections, roomBlocks: applyAvailability(blocks, [], blockedSeats, standby), minChunk: random.int(1, 15) };
+}
+
+const SEEDS = Array.from({ length: 60 }, (_, i) => i + 1);
+const ALGORITHMS = [1, 2, 3, 4, 5];
+const HARD_RULES: InvariantRule[] = ['capacity', 'disjoint', 'contiguous', 'conservation'];
+
+const settingsFor = (scenario: Scenario, changes: Partial<AllocationSettings>): AllocationSettings => ({
+  ...DEFAULT_SETTINGS,
+  minChunk: scenario.minChunk,
+  optimiserTimeLimit: 0.02,
+  ...changes,
+});
+
+const messages = (allocation: Allocation[], scenario: Scenario, settings: AllocationSettings, rules: InvariantRule[]) =>
+  verifyAllocation(allocation, scenario.sections, scenario.roomBlocks, settings)
+    .filter(v => rules.includes(v.rule))
+    .map(v => v.message);
+
+describe('verifyAllocation', () => {
+  const roomBlocks: RoomBlock[] = [{ name: 'Main', rooms: [{ no: 'R1', capacity: 10, rows: [5, 5] }, { no: 'R2', capacity: 10, rows: [5, 5] }] }];
+  const sections: Section[] = [{ id: 1, branch: 'CSE', section: '1', students: 14 }];
+  const rules = (allocation: Allocation[], minChunk = 3) =>
+    verifyAllocation(allocation, sections, roomBlocks, { ...DEFAULT_SETTINGS, minChunk }).map(v => v.rule);
+
+  it('accepts a valid plan', () => {
+    expect(rules([
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 10, startSeat: 1, endSeat: 10, partial: true },
+      { branch: 'CSE', section: '1', roomNo: 'R2', students: 4, startSeat: 1, endSeat: 4, partial: true },
+    ])).toEqual([]);
+  });
+
+  it('flags an overfilled room, shared seats, a mis-sized range and lost students', () => {
+    expect(rules([
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 12, startSeat: 1, endSeat: 12 },
+    ])).toEqual(expect.arrayContaining(['capacity', 'conservation']));
+    expect(rules([
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 7, startSeat: 1, endSeat: 7, partial: true },
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 7, startSeat: 4, endSeat: 10, partial: true },
+    ])).toContain('disjoint');
+    expect(rules([
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 10, startSeat: 1, endSeat: 9, partial: true },
+      { branch: 'CSE', section: '1', roomNo: 'R2', students: 4, startSeat: 1, endSeat: 4, partial: true },
+    ])).toContain('contiguous');
+  });
+
+  it('warns about pieces of a split section below the minimum chunk', () => {
+    const violations = verifyAllocation([
+      { branch: 'CSE', section: '1', roomNo: 'R1', students: 10, startSeat: 1, endSeat: 10, partial: true },
+      { branch: 'CSE', section: '1', roomNo: 'R2', students: 4, startSeat: 1, endSeat: 4, partial: true },
+    ], sections, roomBlocks, { ...DEFAULT_SETTINGS, minChunk: 5 });
+    expect(violations.map(v => [v.rule, v.severity])).toEqual([['minChunk', 'warning']]);
+  });
+});
+
+describe('allocation algorithms (randomised)', () => {
+  it.each(ALGORITHMS)('algorithm %i keeps capacity, disjoint and contiguous seats, and section totals', algorithm => {
+    for (const seed of SEEDS) {
+      const scenario = randomScenario(seed);
+      for (const interleaved of [false, true]) {
+        for (const keepSectionsTogether of [false, true]) {
+          const settings = settingsFor(scenario, { algorithm, interleaved, keepSectionsTogether });
+          const { result } = runAllocation(scenario.sections, scenario.roomBlocks, settings);
+          expect({ seed, interleaved, keepSectionsTogether, violations: messages(result, scenario, settings, HARD_RULES) })
+            .toEqual({ seed, interleaved, keepSectionsTogether, violations: [] });
+        }
+      }
+    }
+  });
+
+  it.each(ALGORITHMS)('algorithm %i keeps the invariants in emergency mode', algorithm => {
+    for (const seed of SEEDS) {
+      const scenario = randomScenario(seed);
+      const settings = settingsFor(scenario, { algorithm, emergencyMode: true, emergencyExtraSeats: 4, emergencyRelaxMinChunk: true });
+      const { result } = runAllocation(scenario.sections, scenario.roomBlocks, settings);
+      expect({ seed, violations: messages(result, scenario, settings, HARD_RULES) }).toEqual({ seed, violations: [] });
+    }
+  });
+});
+
+describe('manual edits and reallocation (randomised)', () => {
+  it('moves, splits and merges keep seats disjoint and contiguous and section totals conserved', () => {
+    for (const seed of SEEDS) {
+      const scenario = randomScenario(seed);
+      const random = createRandom(seed * 7919);
+      const settings = settingsFor(scenario, { algorithm: 3 });
+      const rooms = scenario.roomBlocks.flatMap(b => b.rooms);
+      let allocation = runAllocation(scenario.sections, scenario.roomBlocks, settings).result;
+      for (let step = 0; step < 10 && allocation.length > 0; step++) {
+        const index = random.int(0, allocation.length - 1);
+        const action = random.int(0, 2);
+        if (action === 0) {
+          const target = random.next() < 0.2 ? UNPLACED_ROOM : rooms[random.int(0, rooms.length - 1)].no;
+          allocation = moveChunk(allocation, index, target, scenario.sections, scenario.roomBlocks);
+        } else if (action === 1) {
+          allocation = splitChunk(allocation, index, random.int(1, allocation[index].students), scenario.sections, scenario.roomBlocks);
+        } else {
+          allocation = mergeChunks(allocation, index, scenario.sections, scenario.roomBlocks);
+        }
+        // Moves may knowingly overfill a room; everything else must still hold
+        expect({ seed, step, violations: messages(allocation, scenario, settings, ['disjoint', 'contiguous', 'conservation']) })
+          .toEqual({ seed, step, violations: [] });
+      }
+    }
+  });
+
+  it('reallocating after head counts change keeps every invariant', () => {
+    for (const seed of SEEDS) {
+      const scenario = randomScenario(seed);
+      const random = createRandom(seed * 104729);
+      const settings = settingsFor(scenario, { algorithm: random.int(1, 5) });
+      const baseline = runAllocation(scenario.sections, scenario.roomBlocks, settings).result;
+      const changed: Scenario = {
+        ...scenario,
+        sections: scenario.sections.map(s => ({ ...s, students: Math.max(1, s.students + random.int(-15, 15)) })),
+      };
+      const { result } = reallocateMinimal(baseline, changed.sections, changed.roomBlocks, settings);
+      expect({ seed, violations: messages(result, changed, settings, HARD_RULES) }).toEqual({ seed, violations: [] });
+    }
+  });
+});
@@ -0,0 +1,133 @@
+import { Section, Room, RoomBlock, Allocation, AllocationSettings } from '../types';
+import { requirementKey } from './requirements';
+
+export type InvariantRule = 'capacity' | 'disjoint' | 'contiguous' | 'conservation' | 'minChunk';
+
+export interface InvariantViolation {
+  rule: InvariantRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export const INVARIANT_LABELS: Record<InvariantRule, string> = {
+  capacity: 'Rooms within capacity',
+  disjoint: 'Seats used once each',
+  contiguous: 'Seat ranges match chunk sizes',
+  conservation: 'Section totals conserved',
+  minChunk: 'Split chunks at least the minimum chunk',
+};
+
+// The algorithms treat the minimum chunk as a preference and leave smaller pieces when space runs short,
+// so a piece below it is a warning; the other rules must always hold
+export const INVARIANT_SEVERITY: Record<InvariantRule, InvariantViolation['severity']> = {
+  capacity: 'error',
+  disjoint: 'error',
+  contiguous: 'error',
+  conservation: 'error',
+  minChunk: 'warning',
+};
+
+export type InvariantSettings = Pick<AllocationSettings, 'minChunk' | 'emergencyMode' | 'emergencyExtraSeats' | 'emergencyRelaxMinChunk'>;
+
+const sectionKey = (a: { branch: string; section: string }) => `${a.branch}-${a.section}`;
+
+// Seat numbers a chunk holds; null when its range is malformed
+function chunkSeats(alloc: Allocation): number[] | null {
+  if (alloc.seats) return alloc.seats;
+  if (!alloc.startSeat || !alloc.endSeat || alloc.endSeat < alloc.startSeat) return null;
+  return Array.from({ length: alloc.endSeat - alloc.startSeat + 1 }, (_, i) => alloc.startSeat! + i);
+}
+
+// Hard guarantees every plan must keep, whichever algorithm or edit produced it. checkAllocation covers
+// the softer planning limits; this verifies the allocation itself:
+// - no room holds more students than its capacity (plus the extra benches of emergency chunks);
+// - no seat is given twice, and no chunk sits on a blocked seat or outside the room;
+// - a range covers exactly as many seats as the chunk has students, and seat lists are ascending;
+// - every section's seated and unplaced students add up to its head count.
+// Pieces of a split section smaller than minChunk (relaxed emergency chunks excepted) are reported as warnings.
+// Rooms are the rooms available for the run (see applyAvailability).
+export function verifyAllocation(
+  allocation: Allocation[],
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: InvariantSettings
+): InvariantViolation[] {
+  const violations: InvariantViolation[] = [];
+  const add = (rule: InvariantRule, message: string) => violations.push({ rule, severity: INVARIANT_SEVERITY[rule], message });
+  const rooms: Record<string, Room> = {};
+  roomBlocks.forEach(block => block.rooms.forEach(room => { rooms[room.no] = room; }));
+  const extraSeats = settings.emergencyMode ? settings.emergencyExtraSeats : 0;
+
+  const placed = allocation.filter(a => !a.error);
+  const used: Record<string, number> = {};
+  const emergencyRooms = new Set(placed.filter(a => a.emergency).map(a => a.roomNo));
+  const seatOwners: Record<string, Record<number, Allocation>> = {};
+  for (const alloc of placed) {
+    const label = `${sectionKey(alloc)} in room ${alloc.roomNo}`;
+    if (alloc.students <= 0) add('contiguous', `${label} has ${alloc.students} students.`);
+    const room = rooms[alloc.roomNo];
+    if (!room) {
+      add('capacity', `${label}: the room is not among the available rooms.`);
+      continue;
+    }
+    used[room.no] = (used[room.no] || 0) + alloc.students;
+
+    const seats = chunkSeats(alloc);
+    if (!seats) {
+      add('contiguous', `${label} has no valid seat range (${alloc.startSeat ?? '?'}-${alloc.endSeat ?? '?'}).`);
+      continue;
+    }
+    if (seats.length !== alloc.students) {
+      add('contiguous', `${label} covers ${seats.length} seat(s) for ${alloc.students} student(s).`);
+    }
+    if (alloc.seats && alloc.seats.some((seat, i) => i > 0 && seat <= alloc.seats![i - 1])) {
+      add('contiguous', `${label} lists its seats out of order.`);
+    }
+    const blocked = new Set(room.blockedSeats || []);
+    const lastSeat = room.capacity + blocked.size + (alloc.emergency ? extraSeats : 0);
+    if (!seatOwners[room.no]) seatOwners[room.no] = {};
+    for (const seat of seats) {
+      if (blocked.has(seat)) add('disjoint', `${label} uses blocked seat ${seat}.`);
+      else if (seat < 1 || seat > lastSeat) add('capacity', `${label} uses seat ${seat}, outside the room's seats 1-${lastSeat}.`);
+      const owner = seatOwners[room.no][seat];
+      if (owner && owner !== alloc) add('disjoint', `Seat ${seat} in room ${room.no} is given to both ${sectionKey(owner)} and ${sectionKey(alloc)}.`);
+      seatOwners[room.no][seat] = alloc;
+    }
+  }
+  for (const roomNo of Object.keys(used)) {
+    const room = rooms[roomNo];
+    const limit = room.capacity + (emergencyRooms.has(roomNo) ? extraSeats : 0);
+    if (used[roomNo] > limit) add('capacity', `Room ${roomNo} holds ${used[roomNo]} students for ${limit} seats.`);
+  }
+
+  const expected: Record<string, number> = {};
+  sections.filter(s => s.branch && s.section && s.students > 0).forEach(s => {
+    expected[sectionKey(s)] = (expected[sectionKey(s)] || 0) + s.students;
+  });
+  const actual: Record<string, number> = {};
+  allocation.forEach(a => { actual[sectionKey(a)] = (actual[sectionKey(a)] || 0) + a.students; });
+  for (const key of Array.from(new Set([...Object.keys(expected), ...Object.keys(actual)]))) {
+    const want = expected[key] || 0;
+    const got = actual[key] || 0;
+    if (want === got) continue;
+    add('conservation', want === 0
+      ? `${key} is in the plan with ${got} student(s) but not in the section list.`
+      : `${key} has ${want} student(s) but the plan accounts for ${got} (seated and unplaced).`);
+  }
+
+  // Requirement groups are placed on their own, so each group is split (or not) separately
+  const pieces: Record<string, Allocation[]> = {};
+  placed.forEach(a => {
+    const key = `${sectionKey(a)}|${requirementKey(a.requirements)}`;
+    if (!pieces[key]) pieces[key] = [];
+    pieces[key].push(a);
+  });
+  for (const group of Object.values(pieces)) {
+    if (group.length < 2) continue;
+    for (const alloc of group) {
+      if (alloc.students >= settings.minChunk || (alloc.emergency && settings.emergencyMode && settings.emergencyRelaxMinChunk)) continue;
+      add('minChunk', `${sectionKey(alloc)} has a piece of ${alloc.students} in room ${alloc.roomNo}, below the minimum chunk of ${settings.minChunk}.`);
+    }
+  }
+  return violations;
+}
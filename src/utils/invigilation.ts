@@ -0,0 +1,132 @@
+import { RoomBlock, Allocation, Invigilator, DutySlot, DutyRoom, Duty, ExamSession, SessionResult } from '../types';
+import { parseCsv, findColumn } from './csv';
+import { compareSlots, slotKey, sessionLabel } from './timetable';
+
+// Rooms holding students in one allocation, with the branches seated in each
+export function buildDutyRooms(allocation: Allocation[], roomBlocks: RoomBlock[]): DutyRoom[] {
+  const rooms: DutyRoom[] = [];
+  for (const block of roomBlocks) {
+    for (const room of block.rooms) {
+      const roomAllocations = allocation.filter(a => !a.error && a.roomNo === room.no);
+      if (roomAllocations.length === 0) continue;
+      rooms.push({
+        roomNo: room.no,
+        blockName: block.name,
+        capacity: room.capacity,
+        departments: Array.from(new Set(roomAllocations.map(a => a.branch))),
+      });
+    }
+  }
+  return rooms;
+}
+
+// Duty slots come from the timetable when it has been allocated, otherwise from the current allocation
+export function buildDutySlots(
+  sessions: ExamSession[],
+  sessionResults: SessionResult[],
+  allocation: Allocation[],
+  roomBlocks: RoomBlock[]
+): DutySlot[] {
+  if (sessionResults.length === 0) {
+    return allocation.length > 0
+      ? [{ key: 'current', label: 'Current allocation', rooms: buildDutyRooms(allocation, roomBlocks) }]
+      : [];
+  }
+  const slots: DutySlot[] = [];
+  const allocationsBySlot: Record<string, Allocation[]> = {};
+  for (const session of [...sessions].sort(compareSlots)) {
+    const result = sessionResults.find(r => r.sessionId === session.id);
+    if (!result) continue;
+    const key = slotKey(session);
+    if (!allocationsBySlot[key]) {
+      allocationsBySlot[key] = [];
+      slots.push({ key, label: sessionLabel(session), rooms: [] });
+    }
+    allocationsBySlot[key].push(...result.allocation);
+  }
+  return slots.map(slot => ({ ...slot, rooms: buildDutyRooms(allocationsBySlot[slot.key], roomBlocks) }));
+}
+
+export const invigilatorsNeeded = (capacity: number, seatsPerInvigilator: number) =>
+  Math.max(1, Math.ceil(capacity / Math.max(1, seatsPerInvigilator)));
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+// Staff every room slot by slot, largest rooms first. Each seat goes to the available invigilator with the
+// fewest duties so far who is not from a department seated in the room; only if nobody like that is free
+// is someone from the same department used (and flagged). Unfilled seats are reported as shortfalls.
+export function assignInvigilators(
+  slots: DutySlot[],
+  invigilators: Invigilator[],
+  seatsPerInvigilator: number
+): { duties: Duty[]; shortfalls: string[] } {
+  const duties: Duty[] = [];
+  const shortfalls: string[] = [];
+  const dutyCount: Record<number, number> = {};
+  invigilators.forEach(inv => { dutyCount[inv.id] = 0; });
+
+  for (const slot of slots) {
+    const busy = new Set<number>();
+    const rooms = [...slot.rooms].sort((a, b) => b.capacity - a.capacity);
+    for (const room of rooms) {
+      const departments = room.departments.map(normalise);
+      const needed = invigilatorsNeeded(room.capacity, seatsPerInvigilator);
+      for (let n = 0; n < needed; n++) {
+        const available = invigilators
+          .filter(inv => inv.name.trim())
+          .filter(inv => !busy.has(inv.id))
+          .filter(inv => dutyCount[inv.id] < inv.maxDuties)
+          .filter(inv => !inv.unavailable.some(u => normalise(u) === normalise(slot.label)))
+          .sort((a, b) => dutyCount[a.id] - dutyCount[b.id] || a.name.localeCompare(b.name));
+        const preferred = available.find(inv => !departments.includes(normalise(inv.department)));
+        const chosen = preferred || available[0];
+        if (!chosen) {
+          shortfalls.push(`${slot.label}: room ${room.roomNo} needs ${needed - n} more invigilator(s).`);
+          break;
+        }
+        busy.add(chosen.id);
+        dutyCount[chosen.id]++;
+        duties.push({ slotKey: slot.key, roomNo: room.roomNo, invigilatorId: chosen.id, ownDepartment: !preferred });
+      }
+    }
+  }
+  return { duties, shortfalls };
+}
+
+// Parse an invigilator CSV: Name, Department, Max Duties, Unavailable Slots (separated by ';')
+export function parseInvigilatorCsv(text: string): { invigilators: Invigilator[]; errors: string[] } {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { invigilators: [], errors: ['Invigilator file is empty.'] };
+  const headers = rows[0];
+  const nameCol = findColumn(headers, ['name']);
+  const deptCol = findColumn(headers, ['department', 'dept']);
+  const maxCol = findColumn(headers, ['max duties', 'max']);
+  const unavailableCol = findColumn(headers, ['unavailable slots', 'unavailable']);
+  if (nameCol === -1 || deptCol === -1) {
+    return { invigilators: [], errors: ['Invigilator file needs at least Name and Department columns.'] };
+  }
+
+  const invigilators: Invigilator[] = [];
+  const errors: string[] = [];
+  for (let i = 1; i < rows.length; i++) {
+    const values = rows[i];
+    const name = values[nameCol] || '';
+    if (!name) {
+      errors.push(`Line ${i + 1}: name is required.`);
+      continue;
+    }
+    const maxValue = maxCol === -1 ? '' : values[maxCol] || '';
+    if (maxValue && !/^\d+$/.test(maxValue)) {
+      errors.push(`Line ${i + 1}: Max Duties "${maxValue}" is not a number.`);
+      continue;
+    }
+    invigilators.push({
+      id: invigilators.length + 1,
+      name,
+      department: values[deptCol] || '',
+      maxDuties: maxValue ? parseInt(maxValue) : 99,
+      unavailable: (unavailableCol === -1 ? '' : values[unavailableCol] || '').split(';').map(u => u.trim()).filter(Boolean),
+    });
+  }
+  return { invigilators, errors };
+}
@@ -0,0 +1,102 @@
+import { SeatAssignment } from '../types';
+import { downloadFile } from './export';
+
+export const LOOKUP_DATA_VERSION = 1;
+// Default file name of the export; the lookup page loads it from next to itself unless the link names another
+export const LOOKUP_FILE_NAME = 'seating-lookup.json';
+
+export interface LookupSeat {
+  block: string;
+  room: string;
+  seat: number;
+  row: number | null;
+  bench: number | null;
+}
+
+// Static export of the current plan for student self-lookup. Only roll numbers and seats are
+// published; names stay out because the file is meant to be hosted where anyone can fetch it.
+export interface LookupData {
+  version: number;
+  title: string;
+  generatedAt: string;
+  sections: {
+    branch: string;
+    section: string;
+    seats: Record<string, LookupSeat>; // keyed by roll number
+  }[];
+}
+
+// Branch, section and roll number as carried in a lookup link
+export interface LookupQuery {
+  branch: string;
+  section: string;
+  rollNo: string;
+}
+
+const normalise = (value: string) => value.trim().toLowerCase();
+
+export function buildLookupData(assignments: SeatAssignment[], title: string): LookupData {
+  const sections: Record<string, LookupData['sections'][number]> = {};
+  for (const a of assignments) {
+    const key = `${a.student.branch}-${a.student.section}`;
+    if (!sections[key]) sections[key] = { branch: a.student.branch, section: a.student.section, seats: {} };
+    sections[key].seats[a.student.rollNo] = {
+      block: a.blockName || '',
+      room: a.roomNo,
+      seat: a.seat,
+      row: a.position ? a.position.row : null,
+      bench: a.position ? a.position.bench : null,
+    };
+  }
+  return { version: LOOKUP_DATA_VERSION, title, generatedAt: new Date().toISOString(), sections: Object.values(sections) };
+}
+
+export function exportLookupJson(data: LookupData) {
+  downloadFile(LOOKUP_FILE_NAME, JSON.stringify(data), 'application/json');
+}
+
+// Check a fetched or uploaded export before the lookup page uses it
+export function parseLookupData(data: unknown): LookupData {
+  const candidate = data as LookupData;
+  if (!candidate || typeof candidate !== 'object' || !Array.isArray(candidate.sections)) {
+    throw new Error('This is not a seating lookup export.');
+  }
+  if (candidate.version > LOOKUP_DATA_VERSION) {
+    throw new Error(`The lookup export is version ${candidate.version}; this page reads up to version ${LOOKUP_DATA_VERSION}.`);
+  }
+  return candidate;
+}
+
+// Find a student's seat; branch, section and roll number are matched ignoring case and surrounding spaces
+export function findSeat(data: LookupData, query: LookupQuery): LookupSeat | null {
+  const section = data.sections.find(s =>
+    normalise(s.branch) === normalise(query.branch) && normalise(s.section) === normalise(query.section)
+  );
+  if (!section) return null;
+  const rollNo = Object.keys(section.seats).find(roll => normalise(roll) === normalise(query.rollNo));
+  return rollNo === undefined ? null : section.seats[rollNo];
+}
+
+// Lookup links keep everything in the hash so the page works from static hosting without server routes:
+// <page>#lookup?branch=CSE&section=1&roll=21CS001&data=<export url>
+export function buildLookupLink(pageUrl: string, query: Partial<LookupQuery>, dataUrl?: string): string {
+  const params = new URLSearchParams();
+  if (query.branch) params.set('branch', query.branch);
+  if (query.section) params.set('section', query.section);
+  if (query.rollNo) params.set('roll', query.rollNo);
+  if (dataUrl && dataUrl !== LOOKUP_FILE_NAME) params.set('data', dataUrl);
+  return `${pageUrl.split('#')[0]}#lookup?${params.toString()}`;
+}
+
+// Read a lookup link's hash; null when the page was not opened as a lookup
+export function parseLookupHash(hash: string): (LookupQuery & { dataUrl: string }) | null {
+  const match = hash.match(/^#lookup(?:\?(.*))?$/);
+  if (!match) return null;
+  const params = new URLSearchParams(match[1] || '');
+  return {
+    branch: params.get('branch') || '',
+    section: params.get('section') || '',
+    rollNo: params.get('roll') || '',
+    dataUrl: params.get('data') || LOOKUP_FILE_NAME,
+  };
+}
@@ -0,0 +1,76 @@
+import { RoomBlock, Allocation } from '../types';
+
+export interface Utilisation {
+  label: string;
+  rooms: number;
+  roomsUsed: number;
+  capacity: number; // every available seat in the group, used rooms or not
+  used: number;
+}
+
+// Quality measures beyond Stats: how sections were cut up, and how the available rooms were used
+export interface AllocationMetrics {
+  sectionsPlaced: number;
+  splitSections: number;
+  averagePieces: number;
+  maxPieces: number;
+  smallestFragment: number | null; // smallest piece of a split section, null when nothing is split
+  fragmentsBelowMinChunk: number;
+  availableCapacity: number;
+  unusedCapacity: number; // available seats left empty, in used and unused rooms alike
+  blocks: Utilisation[];
+  floors: Utilisation[];
+}
+
+const floorLabel = (floor?: number) => (floor === undefined ? 'Floor not set' : floor === 0 ? 'Ground floor' : `Floor ${floor}`);
+
+// Metrics of an allocation over the rooms available for the run (see applyAvailability)
+export function computeMetrics(allocation: Allocation[], roomBlocks: RoomBlock[], minChunk: number): AllocationMetrics {
+  const placed = allocation.filter(a => !a.error);
+  const pieces: Record<string, number[]> = {};
+  placed.forEach(a => {
+    const key = `${a.branch}-${a.section}`;
+    pieces[key] = [...(pieces[key] || []), a.students];
+  });
+  const counts = Object.values(pieces).map(p => p.length);
+  const fragments = Object.values(pieces).filter(p => p.length > 1).flat();
+
+  const used: Record<string, number> = {};
+  placed.forEach(a => { used[a.roomNo] = (used[a.roomNo] || 0) + a.students; });
+  const blocks: Utilisation[] = [];
+  const floors: Record<string, Utilisation> = {};
+  const levels: Record<string, number> = {};
+  for (const block of roomBlocks) {
+    if (block.rooms.length === 0) continue;
+    const entry: Utilisation = { label: block.name, rooms: 0, roomsUsed: 0, capacity: 0, used: 0 };
+    for (const room of block.rooms) {
+      const label = floorLabel(room.floor);
+      if (!floors[label]) floors[label] = { label, rooms: 0, roomsUsed: 0, capacity: 0, used: 0 };
+      levels[label] = room.floor === undefined ? Infinity : room.floor;
+      for (const group of [entry, floors[label]]) {
+        group.rooms++;
+        group.capacity += room.capacity;
+        group.used += used[room.no] || 0;
+        if (used[room.no]) group.roomsUsed++;
+      }
+    }
+    blocks.push(entry);
+  }
+  // Floors in building order, rooms without a floor last
+  const floorList = Object.values(floors).sort((a, b) => levels[a.label] - levels[b.label]);
+
+  const availableCapacity = blocks.reduce((sum, b) => sum + b.capacity, 0);
+  const seated = blocks.reduce((sum, b) => sum + b.used, 0);
+  return {
+    sectionsPlaced: counts.length,
+    splitSections: counts.filter(c => c > 1).length,
+    averagePieces: counts.length > 0 ? counts.reduce((sum, c) => sum + c, 0) / counts.length : 0,
+    maxPieces: Math.max(0, ...counts),
+    smallestFragment: fragments.length > 0 ? Math.min(...fragments) : null,
+    fragmentsBelowMinChunk: fragments.filter(f => f < minChunk).length,
+    availableCapacity,
+    unusedCapacity: Math.max(0, availableCapacity - seated),
+    blocks,
+    floors: floorList,
+  };
+}
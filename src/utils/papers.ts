@@ -0,0 +1,17 @@
+import { Allocation } from '../types';
+
+export const NO_PAPER = 'No paper code';
+
+// Question papers needed for a room: one copy per seated student, grouped by paper code
+// (most copies first). Chunks of sections without a code are counted under NO_PAPER.
+export function countPapers(allocations: Allocation[]): { paper: string; copies: number }[] {
+  const copies: Record<string, number> = {};
+  for (const alloc of allocations) {
+    if (alloc.error) continue;
+    const paper = alloc.paper || NO_PAPER;
+    copies[paper] = (copies[paper] || 0) + alloc.students;
+  }
+  return Object.keys(copies)
+    .map(paper => ({ paper, copies: copies[paper] }))
+    .sort((a, b) => b.copies - a.copies || a.paper.localeCompare(b.paper));
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { migratePlan, parsePlanJson, planToJson, PLAN_SCHEMA_VERSION, DEFAULT_SETTINGS } from './plans';
+
+const v1Plan = {
+  version: 1,
+  id: 'abc',
+  name: 'Mid-term',
+  savedAt: '2026-01-01T00:00:00.000Z',
+  sections: [{ id: 1, branch: 'CSE', section: '1', students: 40 }],
+  roomBlocks: [],
+  unavailableRooms: [],
+  blockedSeats: {},
+  settings: DEFAULT_SETTINGS,
+  allocation: [{ branch: 'CSE', section: '1', roomNo: 'R1', students: 40, startSeat: 1, endSeat: 40 }],
+  stats: null,
+};
+
+describe('migratePlan', () => {
+  it('brings a version 1 plan up to the current schema', () => {
+    const plan = migratePlan(v1Plan);
+    expect(plan.version).toBe(PLAN_SCHEMA_VERSION);
+    expect(plan.standbyRooms).toEqual([]);
+    expect(plan.published).toBeNull();
+    expect(parsePlanJson(planToJson(plan))).toEqual(plan);
+  });
+
+  it('rejects data without a schema version', () => {
+    const { version: _version, ...unversioned } = v1Plan;
+    expect(() => migratePlan(unversioned)).toThrow('not a saved seating plan');
+    expect(() => migratePlan({ sections: [] })).toThrow('not a saved seating plan');
+  });
+
+  it('rejects malformed section and allocation entries', () => {
+    expect(() => migratePlan({ ...v1Plan, sections: [...v1Plan.sections, { id: 2, branch: 'ECE', students: '30' }] }))
+      .toThrow('Plan section 2 is not valid.');
+    expect(() => migratePlan({ ...v1Plan, allocation: [{ branch: 'CSE', section: '1', students: 40 }] }))
+      .toThrow('Plan allocation row 1 is not valid.');
+  });
+
+  it('rejects plans from a newer schema', () => {
+    expect(() => migratePlan({ ...v1Plan, version: PLAN_SCHEMA_VERSION + 1 })).toThrow('newer version');
+  });
+});
@@ -0,0 +1,145 @@
+import { SavedPlan, Section, Allocation, AllocationSettings, Stats, PublishedPlan } from '../types';
+
+// Bump when the SavedPlan shape changes and add a step to MIGRATIONS for the previous version
+export const PLAN_SCHEMA_VERSION = 3;
+const STORAGE_KEY = 'exam-seating-plans';
+
+export const DEFAULT_SETTINGS: AllocationSettings = {
+  algorithm: 3,
+  minChunk: 10,
+  interleaved: false,
+  usePriorityOrder: false,
+  optimiserTimeLimit: 3,
+  keepSectionsTogether: false,
+  maxPapersPerRoom: 0,
+  maxSectionsPerRoom: 0,
+  emergencyMode: false,
+  emergencyExtraSeats: 0,
+  emergencyRelaxMinChunk: false,
+};
+
+type RawPlan = Record<string, unknown>;
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+// MIGRATIONS[n] upgrades a version n plan to version n + 1
+const MIGRATIONS: Record<number, (plan: RawPlan) => RawPlan> = {
+  // Version 1: no standby rooms
+  1: plan => ({ ...plan, standbyRooms: [], version: 2 }),
+  // Version 2: no published baseline
+  2: plan => ({ ...plan, published: null, version: 3 }),
+};
+
+const isObject = (value: unknown): value is RawPlan => !!value && typeof value === 'object' && !Array.isArray(value);
+const isCount = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+const isOptional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+function isSection(value: unknown): value is Section {
+  return isObject(value)
+    && typeof value.id === 'number'
+    && typeof value.branch === 'string'
+    && typeof value.section === 'string'
+    && isCount(value.students)
+    && isOptional(value.paper, v => typeof v === 'string')
+    && isOptional(value.requirements, isStringList);
+}
+
+function isAllocation(value: unknown): value is Allocation {
+  return isObject(value)
+    && typeof value.branch === 'string'
+    && typeof value.section === 'string'
+    && typeof value.roomNo === 'string'
+    && isCount(value.students)
+    && isOptional(value.startSeat, isCount)
+    && isOptional(value.endSeat, isCount)
+    && isOptional(value.seats, v => Array.isArray(v) && v.every(isCount))
+    && isOptional(value.paper, v => typeof v === 'string')
+    && isOptional(value.requirements, isStringList);
+}
+
+// The entries of a list field, or an error naming the first entry that has the wrong shape
+function checkEntries<T>(value: unknown, check: (entry: unknown) => entry is T, what: string): T[] {
+  const entries = asArray<unknown>(value);
+  const bad = entries.findIndex(entry => !check(entry));
+  if (bad !== -1) throw new Error(`Plan ${what} ${bad + 1} is not valid.`);
+  return entries as T[];
+}
+
+export const newPlanId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Bring a plan of any known version up to the current schema, filling in anything missing.
+// Throws an Error with a user-facing message when the data cannot be a plan.
+export function migratePlan(data: unknown): SavedPlan {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('File does not contain a plan.');
+  }
+  let plan = data as RawPlan;
+  if (typeof plan.version !== 'number' || !Number.isInteger(plan.version) || plan.version < 1) {
+    throw new Error('File is not a saved seating plan (it has no schema version).');
+  }
+  let version = plan.version;
+  if (version > PLAN_SCHEMA_VERSION) {
+    throw new Error(`Plan was saved by a newer version of the app (schema ${version}); update the app to open it.`);
+  }
+  while (version < PLAN_SCHEMA_VERSION) {
+    plan = MIGRATIONS[version](plan);
+    version++;
+  }
+  if (!Array.isArray(plan.sections)) {
+    throw new Error('Plan has no sections.');
+  }
+  const sections = checkEntries(plan.sections, isSection, 'section');
+  const allocation = checkEntries(plan.allocation, isAllocation, 'allocation row');
+  const settings = (plan.settings && typeof plan.settings === 'object' ? plan.settings : {}) as Partial<AllocationSettings>;
+  const published = (plan.published && typeof plan.published === 'object' ? plan.published : null) as Partial<PublishedPlan> | null;
+  return {
+    version: PLAN_SCHEMA_VERSION,
+    id: typeof plan.id === 'string' ? plan.id : newPlanId(),
+    name: typeof plan.name === 'string' && plan.name.trim() ? plan.name : 'Imported plan',
+    savedAt: typeof plan.savedAt === 'string' ? plan.savedAt : new Date().toISOString(),
+    sections,
+    roomBlocks: asArray(plan.roomBlocks),
+    unavailableRooms: asArray(plan.unavailableRooms),
+    standbyRooms: asArray(plan.standbyRooms),
+    blockedSeats: (plan.blockedSeats && typeof plan.blockedSeats === 'object' ? plan.blockedSeats : {}) as Record<string, number[]>,
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+    allocation,
+    stats: plan.stats && typeof plan.stats === 'object' ? { blockedSeats: 0, localityPenalty: 0, ...(plan.stats as Partial<Stats>) } as Stats : null,
+    published: published && Array.isArray(published.allocation) && typeof published.at === 'string'
+      ? { allocation: checkEntries(published.allocation, isAllocation, 'published allocation row'), at: published.at }
+      : null,
+  };
+}
+
+export function parsePlanJson(text: string): SavedPlan {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  return migratePlan(data);
+}
+
+export const planToJson = (plan: SavedPlan) => JSON.stringify(plan, null, 2);
+
+// Plans kept in browser storage; entries that cannot be migrated are dropped rather than blocking the list
+export function loadStoredPlans(): SavedPlan[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return asArray<unknown>(raw).flatMap(entry => {
+      try {
+        return [migratePlan(entry)];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+export function storePlans(plans: SavedPlan[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(plans));
+}
@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { encodeQr } from './qrcode';
+
+const draw = (modules: boolean[][]) => modules.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+
+// Reference symbols (byte mode, level M) checked module for module against an independent encoder
+const HELLO = [
+  '#######.#..#..#######',
+  '#.....#.####..#.....#',
+  '#.###.#...#.#.#.###.#',
+  '#.###.#.#.#.#.#.###.#',
+  '#.###.#....#..#.###.#',
+  '#.....#....##.#.....#',
+  '#######.#.#.#.#######',
+  '........#..##........',
+  '#.##.###.#.##.#..#.##',
+  '.##.##.#.######..##..',
+  '#...#.#..#.#.......##',
+  '#.##...#...#..####.#.',
+  '.#.######...#..#..#.#',
+  '........####..#...#.#',
+  '#######.#..##..#.....',
+  '#.....#.#.#....#####.',
+  '#.###.#.....######.##',
+  '#.###.#.#.##..#.####.',
+  '#.###.#.##..#.##..#..',
+  '#.....#...#..#.##...#',
+  '#######.#.#..#.#.....',
+];
+
+const ROOM_SEAT = [
+  '#######.#######...#######',
+  '#.....#....##.#.#.#.....#',
+  '#.###.#.#.##.#..#.#.###.#',
+  '#.###.#..###.##.#.#.###.#',
+  '#.###.#..######...#.###.#',
+  '#.....#.#.#.......#.....#',
+  '#######.#.#.#.#.#.#######',
+  '..........##..#..........',
+  '#.#...##.##....##..#..#.#',
+  '##.#.#.#....#.##..#.....#',
+  '...####.#.####.####.#.#.#',
+  '#.#..#.#.##.#...#..###...',
+  '#.##..#.#.#.#.#.#.##.#.#.',
+  '.###....#.#.#..#...#.####',
+  '#####.#.#...#######...#.#',
+  '....#......##...#.###..#.',
+  '##.####..##...########..#',
+  '........###...###...#....',
+  '#######.####.##.#.#.###.#',
+  '#.....#..##...#.#...##.##',
+  '#.###.#..#.##.#######...#',
+  '#.###.#.....#.#.....#..#.',
+  '#.###.#.###.#..##...##.##',
+  '#.....#..#.##.###..###...',
+  '#######.##..######...#..#',
+];
+
+// The eight level M format strings from the QR specification, indexed by mask
+const LEVEL_M_FORMATS = [
+  '101010000010010',
+  '101000100100101',
+  '101111001111100',
+  '101101101001011',
+  '100010111111001',
+  '100000011001110',
+  '100111110010111',
+  '100101010100000',
+];
+
+const bit = (dark: boolean) => (dark ? '1' : '0');
+
+// Both copies of the format string, most significant bit first
+const formatBits = (m: boolean[][]) => {
+  const size = m.length;
+  const first = [
+    ...[0, 1, 2, 3, 4, 5].map(i => m[i][8]),
+    m[7][8],
+    m[8][8],
+    m[8][7],
+    ...[9, 10, 11, 12, 13, 14].map(i => m[8][14 - i]),
+  ];
+  const second = [
+    ...[0, 1, 2, 3, 4, 5, 6, 7].map(i => m[8][size - 1 - i]),
+    ...[8, 9, 10, 11, 12, 13, 14].map(i => m[size - 15 + i][8]),
+  ];
+  return [first, second].map(bits => bits.map(bit).reverse().join(''));
+};
+
+describe('encodeQr', () => {
+  it('matches reference symbols for versions 1 and 2', () => {
+    expect(draw(encodeQr('HELLO'))).toEqual(HELLO);
+    expect(draw(encodeQr('Exam room B204, seat 17'))).toEqual(ROOM_SEAT);
+  });
+
+  it('picks the smallest version that holds the text', () => {
+    expect(encodeQr('a'.repeat(14))).toHaveLength(21);
+    expect(encodeQr('a'.repeat(15))).toHaveLength(25);
+    expect(encodeQr('é'.repeat(7))).toHaveLength(21);
+    expect(encodeQr('é'.repeat(8))).toHaveLength(25);
+  });
+
+  it('writes matching format strings for level M', () => {
+    ['HELLO', 'Exam room B204, seat 17', 'x'.repeat(150)].forEach(text => {
+      const [first, second] = formatBits(encodeQr(text));
+      expect(first).toBe(second);
+      expect(LEVEL_M_FORMATS).toContain(first);
+    });
+  });
+
+  it('writes the version information block from version 7', () => {
+    const m = encodeQr('x'.repeat(150));
+    const size = m.length;
+    expect(size).toBe(49);
+    const info = (read: (i: number) => boolean) =>
+      Array.from({ length: 18 }, (_, i) => bit(read(i))).reverse().join('');
+    expect(info(i => m[Math.floor(i / 3)][size - 11 + (i % 3)])).toBe('001000010110111100');
+    expect(info(i => m[size - 11 + (i % 3)][Math.floor(i / 3)])).toBe('001000010110111100');
+  });
+
+  it('rejects text beyond version 40', () => {
+    expect(encodeQr('x'.repeat(2331))).toHaveLength(177);
+    expect(() => encodeQr('x'.repeat(2332))).toThrow('Text of 2332 bytes is too long for a QR code.');
+  });
+});
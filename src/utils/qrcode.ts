@@ -0,0 +1,261 @@
+// Dependency-free QR code encoder (ISO/IEC 18004): byte mode, error correction level M,
+// versions 1-40. Produces the module matrix; rendering is left to the caller.
+
+// Error correction codewords per block and number of blocks for level M, indexed by version
+const EC_CODEWORDS_PER_BLOCK = [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26,
+  26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28];
+const EC_BLOCKS = [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49];
+const LEVEL_M_BITS = 0;
+
+// GF(256) multiplication over the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(a: number, b: number): number {
+  let product = 0;
+  for (let i = 7; i >= 0; i--) {
+    product = (product << 1) ^ ((product >>> 7) * 0x11d);
+    product ^= ((b >>> i) & 1) * a;
+  }
+  return product;
+}
+
+// Coefficients of the Reed-Solomon generator polynomial of the given degree, highest power dropped
+function rsGenerator(degree: number): number[] {
+  const coefficients = new Array(degree).fill(0);
+  coefficients[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      coefficients[j] = gfMultiply(coefficients[j], root);
+      if (j + 1 < degree) coefficients[j] ^= coefficients[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return coefficients;
+}
+
+function rsRemainder(data: number[], generator: number[]): number[] {
+  const remainder = new Array(generator.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    generator.forEach((coefficient, i) => { remainder[i] ^= gfMultiply(coefficient, factor); });
+  }
+  return remainder;
+}
+
+// Modules left for data and error correction once the function patterns are drawn
+function rawDataModules(version: number): number {
+  let modules = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    modules -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) modules -= 36;
+  }
+  return modules;
+}
+
+const dataCodewords = (version: number) =>
+  Math.floor(rawDataModules(version) / 8) - EC_CODEWORDS_PER_BLOCK[version] * EC_BLOCKS[version];
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const size = version * 4 + 17;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const positions = [6];
+  for (let pos = size - 7; positions.length < count; pos -= step) positions.splice(1, 0, pos);
+  return positions;
+}
+
+// Split the data into blocks, append each block's error correction, and interleave them
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = EC_BLOCKS[version];
+  const ecLength = EC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const generator = rsGenerator(ecLength);
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortLength - ecLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ec = rsRemainder(block, generator);
+    // Short blocks get a placeholder so their error correction lines up with the long blocks'
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ec]);
+  }
+  const result: number[] = [];
+  for (let i = 0; i < shortLength + 1; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortLength - ecLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Penalty score of a finished symbol (lower reads more reliably)
+function penalty(modules: boolean[][]): number {
+  const size = modules.length;
+  let score = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+  for (const line of lines) {
+    // Runs of five or more modules of one colour
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    // Patterns that look like a finder: 1:1:3:1:1 with four light modules on one side
+    const text = line.map(m => (m ? '1' : '0')).join('');
+    const padded = `0000${text}0000`;
+    for (let i = padded.indexOf('1011101'); i !== -1; i = padded.indexOf('1011101', i + 1)) {
+      if (padded.slice(i - 4, i) === '0000' || padded.slice(i + 7, i + 11) === '0000') score += 40;
+    }
+  }
+  for (let y = 0; y + 1 < size; y++) {
+    for (let x = 0; x + 1 < size; x++) {
+      const colour = modules[y][x];
+      if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  score += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+  return score;
+}
+
+// Encode text as a QR code. Returns rows of modules, true for dark, without the quiet zone.
+export function encodeQr(text: string): boolean[][] {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  let version = 1;
+  const bitsNeeded = (v: number) => 4 + (v < 10 ? 8 : 16) + bytes.length * 8;
+  while (version <= 40 && bitsNeeded(version) > dataCodewords(version) * 8) version++;
+  if (version > 40) throw new Error(`Text of ${bytes.length} bytes is too long for a QR code.`);
+
+  // Data bits: byte mode indicator, character count, the bytes, terminator and padding
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  const capacity = dataCodewords(version) * 8;
+  append(0b0100, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(b => append(b, 8));
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  const codewords = addErrorCorrection(data, version);
+
+  const size = version * 4 + 17;
+  const modules: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+  const reserved: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing patterns, finders with their separators, alignment patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0);
+    setFunction(i, 6, i % 2 === 0);
+  }
+  for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+  const aligns = alignmentPositions(version);
+  aligns.forEach((cx, i) => aligns.forEach((cy, j) => {
+    const nearFinder = (i === 0 && j === 0) || (i === 0 && j === aligns.length - 1) || (i === aligns.length - 1 && j === 0);
+    if (nearFinder) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  const drawFormat = (mask: number) => {
+    const value = (LEVEL_M_BITS << 3) | mask;
+    let remainder = value;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const format = ((value << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((format >>> i) & 1) !== 0;
+    for (let i = 0; i <= 5; i++) setFunction(8, i, bit(i));
+    setFunction(8, 7, bit(6));
+    setFunction(8, 8, bit(7));
+    setFunction(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, bit(i));
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, bit(i));
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, bit(i));
+    setFunction(8, size - 8, true);
+  };
+  drawFormat(0);
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const info = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((info >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(a, b, dark);
+      setFunction(b, a, dark);
+    }
+  }
+
+  // Codewords go in two-module columns zigzagging up and down from the bottom right, skipping the timing column
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = upward ? size - 1 - vert : vert;
+        if (reserved[y][x] || bitIndex >= codewords.length * 8) continue;
+        modules[y][x] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) !== 0;
+        bitIndex++;
+      }
+    }
+  }
+
+  // Try every mask and keep the one with the lowest penalty
+  const masked = (mask: number) =>
+    modules.map((row, y) => row.map((dark, x) => (reserved[y][x] ? dark : dark !== MASKS[mask](x, y))));
+  let best = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    drawFormat(mask);
+    const score = penalty(masked(mask));
+    if (score < bestScore) {
+      best = mask;
+      bestScore = score;
+    }
+  }
+  drawFormat(best);
+  return masked(best);
+}
@@ -0,0 +1,22 @@
+import { describe, it, expect } from '@jest/globals';
+import { Section, RoomBlock, Allocation } from '../types';
+import { reallocateMinimal } from './reallocation';
+import { DEFAULT_SETTINGS } from './plans';
+
+describe('reallocateMinimal', () => {
+  const roomBlocks: RoomBlock[] = [{ name: 'Main', rooms: [{ no: 'R1', capacity: 60, rows: [10, 10, 10, 10, 10, 10] }] }];
+  const baseline: Allocation[] = [
+    { branch: 'CSE', section: '1', roomNo: 'R1', students: 40, startSeat: 1, endSeat: 40, blockName: 'Main' },
+  ];
+  const withStudents = (students: number): Section[] => [{ id: 1, branch: 'CSE', section: '1', students }];
+
+  it('extends the last chunk when a section grows in its room', () => {
+    const { result } = reallocateMinimal(baseline, withStudents(45), roomBlocks, DEFAULT_SETTINGS);
+    expect(result.map(a => [a.roomNo, a.students, a.startSeat, a.endSeat])).toEqual([['R1', 45, 1, 45]]);
+  });
+
+  it('gives up seats from the end when a section shrinks', () => {
+    const { result } = reallocateMinimal(baseline, withStudents(30), roomBlocks, DEFAULT_SETTINGS);
+    expect(result.map(a => [a.roomNo, a.students, a.startSeat, a.endSeat])).toEqual([['R1', 30, 1, 30]]);
+  });
+});
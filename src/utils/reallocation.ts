@@ -0,0 +1,176 @@
+import { Section, Room, RoomBlock, Allocation, AllocationSettings, AllocationOutcome } from '../types';
+import { runAllocation } from './allocators';
+import { buildRoomUsage, UNPLACED_ROOM } from './editing';
+import { requirementKey } from './requirements';
+
+export type ChangeKind = 'added' | 'removed' | 'grew' | 'shrank' | 'moved' | 'noSpace';
+
+// How one section differs between the published plan and the current one
+export interface SectionChange {
+  branch: string;
+  section: string;
+  before: number; // students seated in the published plan
+  after: number;
+  unplaced: number; // students without a seat now
+  roomsBefore: string[];
+  roomsAfter: string[];
+  kinds: ChangeKind[];
+}
+
+const sectionKey = (a: { branch: string; section: string }) => `${a.branch}-${a.section}`;
+const chunkKey = (a: Section | Allocation) => `${sectionKey(a)}|${requirementKey(a.requirements)}`;
+const seatsOf = (a: Allocation) =>
+  a.seats || Array.from({ length: (a.endSeat || 0) - (a.startSeat || 1) + 1 }, (_, i) => (a.startSeat || 1) + i);
+
+// A chunk on an explicit list of seats, written as a range when the seats are consecutive
+function onSeats(alloc: Allocation, seats: number[]): Allocation {
+  const { seats: _previous, ...rest } = alloc;
+  const startSeat = seats[0];
+  const endSeat = seats[seats.length - 1];
+  const contiguous = endSeat - startSeat + 1 === seats.length;
+  return { ...rest, students: seats.length, startSeat, endSeat, ...(contiguous ? {} : { seats }) };
+}
+
+// Usable seat numbers of a room: every physical seat that is not blocked
+function roomSeats(room: Room): number[] {
+  const blocked = new Set(room.blockedSeats || []);
+  const seats: number[] = [];
+  for (let seat = 1; seat <= room.capacity + blocked.size; seat++) {
+    if (!blocked.has(seat)) seats.push(seat);
+  }
+  return seats;
+}
+
+// Reallocate against a published plan, moving as few students as possible:
+// 1. chunks whose room is gone or whose seats are no longer usable are taken out and placed again;
+// 2. sections that shrank give up seats from their last chunks, so earlier roll numbers keep their seats;
+// 3. sections that grew first extend their last chunk with free seats in its room, and whatever is still
+//    unseated is placed by the selected algorithm around the chunks that were kept.
+// Kept chunks keep their seat numbers; new chunks follow them, then any NO SPACE rows.
+// `onProgress` reports the run that places the unseated students (see runAllocation).
+export function reallocateMinimal(
+  baseline: Allocation[],
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings,
+  onProgress?: (done: number, total: number) => void
+): AllocationOutcome {
+  const rooms: Record<string, Room> = {};
+  roomBlocks.forEach(block => block.rooms.forEach(room => { rooms[room.no] = room; }));
+  const demand: Record<string, Section> = {};
+  sections.filter(s => s.branch && s.section && s.students > 0).forEach(s => {
+    const key = chunkKey(s);
+    demand[key] = demand[key] ? { ...demand[key], students: demand[key].students + s.students } : { ...s };
+  });
+
+  // 1. Keep chunks of sections still listed whose seats are all usable
+  const usable: Record<string, Set<number>> = {};
+  Object.values(rooms).forEach(room => { usable[room.no] = new Set(roomSeats(room)); });
+  let kept = baseline.filter(a =>
+    !a.error && demand[chunkKey(a)] && usable[a.roomNo] && seatsOf(a).every(seat => usable[a.roomNo].has(seat))
+  );
+
+  // 2. Trim sections that shrank, last chunk first
+  const placed: Record<string, number> = {};
+  kept.forEach(a => { placed[chunkKey(a)] = (placed[chunkKey(a)] || 0) + a.students; });
+  for (let i = kept.length - 1; i >= 0; i--) {
+    const key = chunkKey(kept[i]);
+    const excess = placed[key] - demand[key].students;
+    if (excess <= 0) continue;
+    const drop = Math.min(excess, kept[i].students);
+    placed[key] -= drop;
+    kept = drop === kept[i].students
+      ? kept.filter((_, idx) => idx !== i)
+      : kept.map((a, idx) => (idx === i ? onSeats(a, seatsOf(a).slice(0, a.students - drop)) : a));
+  }
+
+  // 3. Grow sections by extending their last chunk, then place the rest around what is kept
+  const taken: Record<string, Set<number>> = {};
+  kept.forEach(a => {
+    if (!taken[a.roomNo]) taken[a.roomNo] = new Set();
+    seatsOf(a).forEach(seat => taken[a.roomNo].add(seat));
+  });
+  const pending: Section[] = [];
+  for (const key of Object.keys(demand)) {
+    let missing = demand[key].students - (placed[key] || 0);
+    if (missing <= 0) continue;
+    const last = kept.filter(a => chunkKey(a) === key).pop();
+    if (last) {
+      const free = roomSeats(rooms[last.roomNo]).filter(seat => !taken[last.roomNo].has(seat)).slice(0, missing);
+      if (free.length > 0) {
+        const extended = onSeats(last, [...seatsOf(last), ...free].sort((a, b) => a - b));
+        kept = kept.map(a => (a === last ? extended : a));
+        free.forEach(seat => taken[last.roomNo].add(seat));
+        missing -= free.length;
+      }
+    }
+    if (missing > 0) pending.push({ ...demand[key], students: missing });
+  }
+  const outcome = pending.length > 0
+    ? runAllocation(pending, roomBlocks, settings, kept, onProgress)
+    : { result: [], roomUsage: {} };
+
+  const result = [...kept, ...outcome.result.filter(a => !a.error), ...outcome.result.filter(a => a.error)];
+  const totals: Record<string, number> = {};
+  Object.values(demand).forEach(s => { totals[sectionKey(s)] = (totals[sectionKey(s)] || 0) + s.students; });
+  const flagged = result.map(a => (a.error ? a : { ...a, partial: a.students !== totals[sectionKey(a)] }));
+  return {
+    result: flagged,
+    roomUsage: buildRoomUsage(flagged),
+    ...(outcome.report ? { report: outcome.report } : {}),
+    ...(outcome.emergency ? { emergency: outcome.emergency } : {}),
+  };
+}
+
+// Compare a plan with the published one section by section; unchanged sections are left out
+export function diffAllocations(baseline: Allocation[], current: Allocation[]): SectionChange[] {
+  const summarise = (allocation: Allocation[]) => {
+    const bySection: Record<string, { branch: string; section: string; seated: number; unplaced: number; rooms: Set<string> }> = {};
+    for (const a of allocation) {
+      const key = sectionKey(a);
+      if (!bySection[key]) bySection[key] = { branch: a.branch, section: a.section, seated: 0, unplaced: 0, rooms: new Set() };
+      if (a.error || a.roomNo === UNPLACED_ROOM) {
+        bySection[key].unplaced += a.students;
+      } else {
+        bySection[key].seated += a.students;
+        bySection[key].rooms.add(a.roomNo);
+      }
+    }
+    return bySection;
+  };
+  const before = summarise(baseline);
+  const after = summarise(current);
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  const changes: SectionChange[] = [];
+  for (const key of keys) {
+    const b = before[key];
+    const a = after[key];
+    const kinds: ChangeKind[] = [];
+    const totalBefore = b ? b.seated + b.unplaced : 0;
+    const totalAfter = a ? a.seated + a.unplaced : 0;
+    if (!b) kinds.push('added');
+    else if (!a) kinds.push('removed');
+    else {
+      if (totalAfter > totalBefore) kinds.push('grew');
+      if (totalAfter < totalBefore) kinds.push('shrank');
+      // Leaving a room only counts as a move when the section did not just shrink out of it
+      const entered = Array.from(a.rooms).some(room => !b.rooms.has(room));
+      const left = Array.from(b.rooms).some(room => !a.rooms.has(room));
+      if (entered || (left && totalAfter >= totalBefore)) kinds.push('moved');
+    }
+    if (a && a.unplaced > 0) kinds.push('noSpace');
+    if (kinds.length === 0) continue;
+    const info = (a || b)!;
+    changes.push({
+      branch: info.branch,
+      section: info.section,
+      before: b ? b.seated : 0,
+      after: a ? a.seated : 0,
+      unplaced: a ? a.unplaced : 0,
+      roomsBefore: b ? Array.from(b.rooms) : [],
+      roomsAfter: a ? Array.from(a.rooms) : [],
+      kinds,
+    });
+  }
+  return changes;
+}
@@ -0,0 +1,75 @@
+import { Section, Room, Allocation, Student, RoomFeature, RoomRequirement } from '../types';
+
+export const ROOM_FEATURES: { key: RoomFeature; label: string; short: string; column: string }[] = [
+  { key: 'wheelchair', label: 'Wheelchair accessible', short: 'Wheelchair', column: 'WHEELCHAIR' },
+  { key: 'nearWashroom', label: 'Near washroom', short: 'Washroom', column: 'NEAR WASHROOM' },
+  { key: 'cctv', label: 'CCTV', short: 'CCTV', column: 'CCTV' },
+  { key: 'extraTime', label: 'Extra-time room', short: 'Extra time', column: 'EXTRA TIME' },
+];
+
+export const REQUIREMENT_LABELS: Record<RoomRequirement, string> = {
+  groundFloor: 'Ground floor',
+  wheelchair: 'Wheelchair accessible',
+  nearWashroom: 'Near washroom',
+  cctv: 'CCTV',
+  extraTime: 'Extra-time room',
+};
+
+export const ALL_REQUIREMENTS = Object.keys(REQUIREMENT_LABELS) as RoomRequirement[];
+
+export const describeRequirements = (requirements: RoomRequirement[]) =>
+  requirements.map(r => REQUIREMENT_LABELS[r]).join(', ');
+
+// Stable key for a set of requirements, so groups with the same needs are allocated together
+export const requirementKey = (requirements: RoomRequirement[] = []) => [...requirements].sort().join('+');
+
+export function meetsRequirements(room: Room, requirements: RoomRequirement[] = []): boolean {
+  return requirements.every(r => (r === 'groundFloor' ? room.floor === 0 : (room.features || []).includes(r)));
+}
+
+// Parse a free-text requirement list such as "wheelchair; ground floor". Matching ignores case,
+// spaces and hyphens and accepts either the key or the label; anything else is returned as unknown.
+export function parseRequirements(text: string): { requirements: RoomRequirement[]; unknown: string[] } {
+  const normalise = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+  const requirements: RoomRequirement[] = [];
+  const unknown: string[] = [];
+  for (const part of text.split(/[;|]/).map(p => p.trim()).filter(Boolean)) {
+    const match = ALL_REQUIREMENTS.find(r => normalise(r) === normalise(part) || normalise(REQUIREMENT_LABELS[r]) === normalise(part));
+    if (!match) unknown.push(part);
+    else if (!requirements.includes(match)) requirements.push(match);
+  }
+  return { requirements, unknown };
+}
+
+// Students with their own requirements are taken out of their section into groups of the same
+// branch, section and requirements, so the allocator can place them separately
+export function applyStudentRequirements(sections: Section[], students: Student[]): Section[] {
+  const groups: Record<string, Section> = {};
+  const taken: Record<string, number> = {};
+  const byKey: Record<string, Section> = {};
+  // Sections by branch and section (the first one when a pair repeats)
+  sections.forEach(s => { if (!byKey[`${s.branch}-${s.section}`]) byKey[`${s.branch}-${s.section}`] = s; });
+  for (const student of students) {
+    if (!student.requirements || student.requirements.length === 0) continue;
+    const sectionKey = `${student.branch}-${student.section}`;
+    const section = byKey[sectionKey];
+    if (!section) continue;
+    const requirements = Array.from(new Set([...(section.requirements || []), ...student.requirements]));
+    const key = `${sectionKey}|${requirementKey(requirements)}`;
+    if (!groups[key]) groups[key] = { ...section, students: 0, requirements };
+    groups[key].students++;
+    taken[sectionKey] = (taken[sectionKey] || 0) + 1;
+  }
+  if (Object.keys(groups).length === 0) return sections;
+  const reduced = sections
+    .map(s => ({ ...s, students: s.students - (taken[`${s.branch}-${s.section}`] || 0) }))
+    .filter(s => s.students > 0);
+  return [...reduced, ...Object.values(groups).filter(g => g.students > 0)];
+}
+
+// One message per group of students left unseated because no room with their requirements had space
+export function describeUnmetRequirements(allocation: Allocation[]): string[] {
+  return allocation
+    .filter(a => a.error && a.requirements && a.requirements.length > 0)
+    .map(a => `${a.branch}-${a.section}: ${a.students} student(s) need ${describeRequirements(a.requirements!)}, but no room with that had space.`);
+}
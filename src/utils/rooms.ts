@@ -0,0 +1,170 @@
+import { Room, RoomBlock, RoomIssue, RoomFeature } from '../types';
+import { parseCsvRows, findColumn } from './csv';
+import { ROOM_FEATURES } from './requirements';
+
+export const MAX_ROWS = 8;
+const BLOCK_SUFFIX = ' Block';
+
+const isInteger = (value: string) => /^\d+$/.test(value);
+const YES = ['yes', 'y', 'true', '1'];
+const NO = ['no', 'n', 'false', '0', ''];
+
+// Parse the room inventory CSV (S.NO, BLOCK, ROOM NO, ROW-1..ROW-8, Total Count, and optionally
+// FLOOR plus yes/no feature columns such as WHEELCHAIR and CCTV).
+// Rows that cannot be used are skipped and every problem found is reported with its line number.
+export function parseRoomCsv(text: string): { roomBlocks: RoomBlock[]; issues: RoomIssue[] } {
+  const rows = parseCsvRows(text);
+  const issues: RoomIssue[] = [];
+  if (rows.length === 0) {
+    return { roomBlocks: [], issues: [{ severity: 'error', message: 'Room file is empty.' }] };
+  }
+
+  const headers = rows[0].cells;
+  const blockCol = findColumn(headers, ['BLOCK']);
+  const roomCol = findColumn(headers, ['ROOM NO']);
+  const totalCol = findColumn(headers, ['Total Count']);
+  const rowCols = Array.from({ length: MAX_ROWS }, (_, j) => findColumn(headers, [`ROW-${j + 1}`]));
+  const floorCol = findColumn(headers, ['FLOOR']);
+  const featureCols = ROOM_FEATURES.map(f => ({ ...f, col: findColumn(headers, [f.column]) })).filter(f => f.col !== -1);
+  const missing = [
+    blockCol === -1 && 'BLOCK',
+    roomCol === -1 && 'ROOM NO',
+    totalCol === -1 && 'Total Count',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    return { roomBlocks: [], issues: [{ severity: 'error', message: `Room file is missing column(s): ${missing.join(', ')}.` }] };
+  }
+
+  const blocks: { [key: string]: Room[] } = {};
+  const blockOrder: string[] = [];
+  for (const { cells: values, line, quoted } of rows.slice(1)) {
+    const blockName = values[blockCol] || '';
+    const roomNo = values[roomCol] || '';
+    const total = values[totalCol] || '';
+    if (quoted) {
+      issues.push({ severity: 'warning', line, roomNo, message: 'Contains quoted fields; check that commas inside quotes are intended.' });
+    }
+    if (!blockName || !roomNo) {
+      issues.push({ severity: 'error', line, message: 'BLOCK and ROOM NO are required; row skipped.' });
+      continue;
+    }
+    if (!isInteger(total)) {
+      issues.push({ severity: 'error', line, roomNo, message: `Total Count "${total}" is not a number; row skipped.` });
+      continue;
+    }
+
+    // Parse row data ('x' or blank marks an unused row)
+    const roomRows: number[] = [];
+    rowCols.forEach((col, j) => {
+      const rowValue = col === -1 ? '' : values[col] || '';
+      if (!rowValue || rowValue.toLowerCase() === 'x') return;
+      if (isInteger(rowValue)) {
+        roomRows.push(parseInt(rowValue));
+      } else {
+        issues.push({ severity: 'error', line, roomNo, message: `ROW-${j + 1} value "${rowValue}" is not a number; ignored.` });
+      }
+    });
+
+    // Optional attributes: a bad value is reported and the attribute left unset
+    const room: Room = { no: roomNo, capacity: parseInt(total), rows: roomRows };
+    const floor = floorCol === -1 ? '' : values[floorCol] || '';
+    if (/^-?\d+$/.test(floor)) {
+      room.floor = parseInt(floor);
+    } else if (floor) {
+      issues.push({ severity: 'warning', line, roomNo, message: `FLOOR value "${floor}" is not a number; ignored.` });
+    }
+    const features: RoomFeature[] = [];
+    for (const { key, column, col } of featureCols) {
+      const value = (values[col] || '').toLowerCase();
+      if (YES.includes(value)) features.push(key);
+      else if (!NO.includes(value)) {
+        issues.push({ severity: 'warning', line, roomNo, message: `${column} value "${values[col]}" should be yes or no; treated as no.` });
+      }
+    }
+    if (features.length > 0) room.features = features;
+
+    if (!blocks[blockName]) {
+      blocks[blockName] = [];
+      blockOrder.push(blockName);
+    }
+    blocks[blockName].push(room);
+  }
+
+  // Convert blocks object to array format. File order is kept: it is the block and room priority order.
+  const roomBlocks = blockOrder.map(name => ({
+    name: `${name}${BLOCK_SUFFIX}`,
+    rooms: blocks[name]
+  }));
+  return { roomBlocks, issues: [...issues, ...validateRoomBlocks(roomBlocks)] };
+}
+
+// Checks that apply to edited data as well as uploaded files
+export function validateRoomBlocks(roomBlocks: RoomBlock[]): RoomIssue[] {
+  const issues: RoomIssue[] = [];
+  const seen: Record<string, string> = {};
+  for (const block of roomBlocks) {
+    for (const room of block.rooms) {
+      if (!room.no.trim()) {
+        issues.push({ severity: 'error', message: `${block.name} has a room without a room number.` });
+        continue;
+      }
+      if (seen[room.no]) {
+        issues.push({ severity: 'error', roomNo: room.no, message: `Duplicate ROOM NO (also in ${seen[room.no]}).` });
+      } else {
+        seen[room.no] = block.name;
+      }
+      if (room.capacity <= 0) {
+        issues.push({ severity: 'error', roomNo: room.no, message: 'Total Count must be greater than zero.' });
+      }
+      const rowSum = room.rows.reduce((sum, n) => sum + n, 0);
+      if (room.rows.length > 0 && rowSum !== room.capacity) {
+        issues.push({ severity: 'warning', roomNo: room.no, message: `Total Count ${room.capacity} does not equal the sum of ROW values (${rowSum}).` });
+      }
+    }
+  }
+  return issues;
+}
+
+// Flatten rooms either in priority order (blocks top to bottom, rooms as listed) or largest first.
+// The capacity sort is stable, so priority order still breaks ties between equal rooms.
+export function orderRooms(roomBlocks: RoomBlock[], byPriority: boolean): (Room & { blockName: string })[] {
+  const rooms = roomBlocks.flatMap(block =>
+    block.rooms.map(room => ({ ...room, blockName: block.name }))
+  );
+  return byPriority ? rooms : rooms.sort((a, b) => b.capacity - a.capacity);
+}
+
+// Move an item one place up (-1) or down (+1) in a list
+export function moveItem<T>(items: T[], idx: number, direction: -1 | 1): T[] {
+  const target = idx + direction;
+  if (target < 0 || target >= items.length) return items;
+  const copy = [...items];
+  [copy[idx], copy[target]] = [copy[target], copy[idx]];
+  return copy;
+}
+
+// Serialise back to the same column layout as the source file. Attribute columns are only
+// written when some room has attributes, so a plain inventory round-trips unchanged.
+export function roomBlocksToCsv(roomBlocks: RoomBlock[]): string {
+  const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rooms = roomBlocks.flatMap(b => b.rooms);
+  const withAttributes = rooms.some(r => r.floor !== undefined || (r.features && r.features.length > 0));
+  const header = [
+    'S.NO', 'BLOCK', 'ROOM NO', ...Array.from({ length: MAX_ROWS }, (_, j) => `ROW-${j + 1}`), 'Total Count',
+    ...(withAttributes ? ['FLOOR', ...ROOM_FEATURES.map(f => f.column)] : []),
+  ];
+  const lines = [header.join(',')];
+  let serial = 0;
+  for (const block of roomBlocks) {
+    const blockName = block.name.endsWith(BLOCK_SUFFIX) ? block.name.slice(0, -BLOCK_SUFFIX.length) : block.name;
+    for (const room of block.rooms) {
+      serial++;
+      const rowCells = Array.from({ length: MAX_ROWS }, (_, j) => (j < room.rows.length ? String(room.rows[j]) : 'x'));
+      const attributeCells = withAttributes
+        ? [room.floor === undefined ? '' : String(room.floor), ...ROOM_FEATURES.map(f => ((room.features || []).includes(f.key) ? 'yes' : 'no'))]
+        : [];
+      lines.push([String(serial), quote(blockName), quote(room.no), ...rowCells, String(room.capacity), ...attributeCells].join(','));
+    }
+  }
+  return lines.join('\n') + '\n';
+}
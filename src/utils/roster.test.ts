@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { Section } from '../types';
+import { parseRosterCsv, validateRoster } from './roster';
+
+describe('parseRosterCsv', () => {
+  it('reads students and reports incomplete, duplicate and unknown-requirement rows by line', () => {
+    const { students, errors } = parseRosterCsv([
+      'Roll No,Name,Branch,Section,Requirements',
+      '101,"Rao, A",CSE,1,',
+      '102,B,CSE,,',
+      '101,C,CSE,1,',
+      '103,D,ECE,1,wheelchair; jetpack',
+    ].join('\r\n'));
+    expect(students.map(s => [s.rollNo, s.name, s.requirements])).toEqual([['101', 'Rao, A', undefined], ['103', 'D', ['wheelchair']]]);
+    expect(errors).toEqual([
+      'Line 3: roll number, branch and section are required.',
+      'Line 4: duplicate roll number 101.',
+      'Line 5: unknown requirement(s) jetpack; ignored.',
+    ]);
+  });
+
+  it('names the missing columns', () => {
+    expect(parseRosterCsv('Roll,Name\n1,A').errors).toEqual(['Roster is missing column(s): branch, section.']);
+  });
+});
+
+describe('validateRoster', () => {
+  const sections: Section[] = [
+    { id: 1, branch: 'CSE', section: '1', students: 2 },
+    { id: 2, branch: 'ECE', section: '1', students: 1 },
+  ];
+  const student = (rollNo: string, branch: string, section: string) => ({ rollNo, name: '', branch, section });
+
+  it('reports sections whose roster count differs from the section list, and unknown sections', () => {
+    const errors = validateRoster([student('1', 'CSE', '1'), student('2', 'ECE', '1'), student('3', 'ME', '1')], sections);
+    expect(errors).toEqual({
+      'CSE-1': 'CSE-1: roster has 1 student(s) but the section lists 2.',
+      'ME-1': 'ME-1: 1 roster student(s) belong to a section that is not in the section list.',
+    });
+  });
+
+  it('accepts a roster that matches every section', () => {
+    expect(validateRoster([student('1', 'CSE', '1'), student('2', 'CSE', '1'), student('3', 'ECE', '1')], sections)).toEqual({});
+  });
+});
@@ -0,0 +1,134 @@
+import { Section, Room, Allocation, Student, SeatAssignment } from '../types';
+import { parseCsv, findColumn } from './csv';
+import { seatToPosition } from './seating';
+import { parseRequirements } from './requirements';
+
+const sectionKey = (branch: string, section: string) => `${branch}-${section}`;
+
+// Parse a roster CSV with roll number, name, branch and section columns (header names are case-insensitive).
+// An optional Requirements column lists room needs per student, e.g. "wheelchair; ground floor".
+export function parseRosterCsv(text: string): { students: Student[]; errors: string[] } {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return { students: [], errors: ['Roster file is empty.'] };
+
+  const headers = rows[0];
+  const cols = {
+    rollNo: findColumn(headers, ['roll number', 'roll no', 'roll', 'rollno']),
+    name: findColumn(headers, ['name', 'student name']),
+    branch: findColumn(headers, ['branch']),
+    section: findColumn(headers, ['section']),
+  };
+  const missing = Object.entries(cols).filter(([, idx]) => idx === -1).map(([col]) => col);
+  if (missing.length > 0) {
+    return { students: [], errors: [`Roster is missing column(s): ${missing.join(', ')}.`] };
+  }
+  const requirementsCol = findColumn(headers, ['requirements', 'needs']);
+
+  const students: Student[] = [];
+  const errors: string[] = [];
+  const seenRolls = new Set<string>();
+  for (let i = 1; i < rows.length; i++) {
+    const values = rows[i];
+    const student: Student = {
+      rollNo: values[cols.rollNo] || '',
+      name: values[cols.name] || '',
+      branch: values[cols.branch] || '',
+      section: values[cols.section] || '',
+    };
+    if (!student.rollNo || !student.branch || !student.section) {
+      errors.push(`Line ${i + 1}: roll number, branch and section are required.`);
+      continue;
+    }
+    if (seenRolls.has(student.rollNo)) {
+      errors.push(`Line ${i + 1}: duplicate roll number ${student.rollNo}.`);
+      continue;
+    }
+    if (requirementsCol !== -1 && values[requirementsCol]) {
+      const { requirements, unknown } = parseRequirements(values[requirementsCol]);
+      if (unknown.length > 0) errors.push(`Line ${i + 1}: unknown requirement(s) ${unknown.join(', ')}; ignored.`);
+      if (requirements.length > 0) student.requirements = requirements;
+    }
+    seenRolls.add(student.rollNo);
+    students.push(student);
+  }
+  return { students, errors };
+}
+
+// Compare roster head counts with the section list. Returns one error message per mismatched section key.
+export function validateRoster(students: Student[], sections: Section[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const counts: Record<string, number> = {};
+  for (const student of students) {
+    const key = sectionKey(student.branch, student.section);
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  const known = new Set<string>();
+  for (const s of sections) {
+    if (!s.branch || !s.section) continue;
+    const key = sectionKey(s.branch, s.section);
+    known.add(key);
+    const count = counts[key] || 0;
+    if (count !== s.students) {
+      errors[key] = `${key}: roster has ${count} student(s) but the section lists ${s.students}.`;
+    }
+  }
+  for (const key of Object.keys(counts)) {
+    if (!known.has(key)) {
+      errors[key] = `${key}: ${counts[key]} roster student(s) belong to a section that is not in the section list.`;
+    }
+  }
+  return errors;
+}
+
+// Walk each section's allocations in order and hand out their seats to the section's students
+// sorted by roll number. Sections listed in `skipSections` (e.g. with roster mismatches) are left unseated.
+// A student with requirements only gets a seat in a chunk placed for those requirements, and such
+// chunks seat students with requirements before the rest of the section.
+export function assignStudentSeats(
+  students: Student[],
+  allocation: Allocation[],
+  rooms: Room[],
+  skipSections: Set<string> = new Set()
+): SeatAssignment[] {
+  const roomByNo: Record<string, Room> = {};
+  rooms.forEach(r => { roomByNo[r.no] = r; });
+
+  const bySection: Record<string, Student[]> = {};
+  for (const student of students) {
+    const key = sectionKey(student.branch, student.section);
+    if (!bySection[key]) bySection[key] = [];
+    bySection[key].push(student);
+  }
+  Object.values(bySection).forEach(list =>
+    list.sort((a, b) => a.rollNo.localeCompare(b.rollNo, undefined, { numeric: true }))
+  );
+
+  const assignments: SeatAssignment[] = [];
+  const seated = new Set<Student>();
+  const fits = (student: Student, alloc: Allocation) =>
+    (student.requirements || []).every(r => (alloc.requirements || []).includes(r));
+  for (const alloc of allocation) {
+    const key = sectionKey(alloc.branch, alloc.section);
+    const room = roomByNo[alloc.roomNo];
+    if (alloc.error || !room || skipSections.has(key) || !bySection[key]) continue;
+    const seats = alloc.seats
+      || Array.from({ length: (alloc.endSeat || 0) - (alloc.startSeat || 1) + 1 }, (_, i) => (alloc.startSeat || 1) + i);
+    const candidates = bySection[key].filter(st => !seated.has(st) && fits(st, alloc));
+    if (alloc.requirements && alloc.requirements.length > 0) {
+      candidates.sort((a, b) => (b.requirements?.length ? 1 : 0) - (a.requirements?.length ? 1 : 0));
+    }
+    for (const seat of seats) {
+      const student = candidates.shift();
+      if (!student) break;
+      seated.add(student);
+      assignments.push({
+        student,
+        roomNo: room.no,
+        blockName: alloc.blockName,
+        seat,
+        position: seatToPosition(room, seat),
+      });
+    }
+  }
+  return assignments;
+}
@@ -0,0 +1,111 @@
+import { Room, Allocation, SeatPosition } from '../types';
+
+// Seats are numbered row by row from the front: seat 1 is row 1 bench 1,
+// and numbering continues into the next row once a row's benches run out.
+export function seatToPosition(room: Room, seat: number): SeatPosition | null {
+  let offset = 0;
+  for (let r = 0; r < room.rows.length; r++) {
+    if (seat <= offset + room.rows[r]) {
+      return { seat, row: r + 1, bench: seat - offset };
+    }
+    offset += room.rows[r];
+  }
+  return null;
+}
+
+// Expand an allocation's startSeat/endSeat range into physical seat positions.
+// Seats past the last mapped row (capacity larger than the row layout) are dropped.
+export function getAllocationSeats(room: Room, alloc: Allocation): SeatPosition[] {
+  if (alloc.error) return [];
+  if (alloc.seats) {
+    return alloc.seats
+      .map(seat => seatToPosition(room, seat))
+      .filter((pos): pos is SeatPosition => pos !== null);
+  }
+  if (!alloc.startSeat || !alloc.endSeat) return [];
+  const seats: SeatPosition[] = [];
+  for (let seat = alloc.startSeat; seat <= alloc.endSeat; seat++) {
+    const pos = seatToPosition(room, seat);
+    if (pos) seats.push(pos);
+  }
+  return seats;
+}
+
+// Build a row-by-bench grid for a room, holding the allocation that occupies each seat (or null if empty)
+export function buildSeatGrid(room: Room, allocations: Allocation[]): (Allocation | null)[][] {
+  const grid: (Allocation | null)[][] = room.rows.map(benches => new Array(benches).fill(null));
+  for (const alloc of allocations) {
+    if (alloc.roomNo !== room.no) continue;
+    for (const pos of getAllocationSeats(room, alloc)) {
+      grid[pos.row - 1][pos.bench - 1] = alloc;
+    }
+  }
+  return grid;
+}
+
+// Split a room's seats into the two colours of a checkerboard over its row layout.
+// No two seats of the same colour sit side by side or one directly behind the other,
+// so filling each colour with different sections keeps neighbours apart.
+// Seats beyond the row layout have no known neighbours and alternate by seat number. Blocked seats are left out.
+export function getSeatClasses(room: Room): [number[], number[]] {
+  const classes: [number[], number[]] = [[], []];
+  const blocked = new Set(room.blockedSeats || []);
+  const totalSeats = room.capacity + blocked.size;
+  let seat = 0;
+  room.rows.forEach((benches, rowIdx) => {
+    for (let bench = 0; bench < benches; bench++) {
+      seat++;
+      if (seat <= totalSeats && !blocked.has(seat)) classes[(rowIdx + bench) % 2].push(seat);
+    }
+  });
+  for (seat++; seat <= totalSeats; seat++) {
+    if (!blocked.has(seat)) classes[seat % 2].push(seat);
+  }
+  return classes;
+}
+
+// Count neighbouring seat pairs (side by side in a row, or one directly ahead) held by the same section
+export function countSeatConflicts(room: Room, allocations: Allocation[]): number {
+  const grid = buildSeatGrid(room, allocations);
+  const sameSection = (a: Allocation | null, b: Allocation | null) =>
+    !!a && !!b && a.branch === b.branch && a.section === b.section;
+  let conflicts = 0;
+  grid.forEach((row, rowIdx) => {
+    row.forEach((alloc, benchIdx) => {
+      if (benchIdx + 1 < row.length && sameSection(alloc, row[benchIdx + 1])) conflicts++;
+      if (rowIdx > 0 && benchIdx < grid[rowIdx - 1].length && sameSection(alloc, grid[rowIdx - 1][benchIdx])) conflicts++;
+    });
+  });
+  return conflicts;
+}
+
+// Consecutive seats of a seat list collapsed into [first, last] runs
+function seatRuns(seats: number[]): [number, number][] {
+  const runs: [number, number][] = [];
+  for (const seat of seats) {
+    const last = runs[runs.length - 1];
+    if (last && seat === last[1] + 1) last[1] = seat;
+    else runs.push([seat, seat]);
+  }
+  return runs;
+}
+
+const formatRuns = (runs: [number, number][]) =>
+  runs.map(([start, end]) => (start === end ? `${start}` : `${start}-${end}`)).join(', ');
+
+// Human-readable seat range for an allocation. A seat list with only a few gaps (a range
+// stepping around blocked seats) is written out as runs; anything more broken up is interleaved.
+export function formatSeatRange(alloc: Allocation): string {
+  if (alloc.seats && alloc.seats.length > 0) {
+    const runs = seatRuns(alloc.seats);
+    if (runs.length <= 3) return formatRuns(runs);
+    return `${alloc.startSeat}-${alloc.endSeat}, alternate seats`;
+  }
+  return `${alloc.startSeat}-${alloc.endSeat}`;
+}
+
+// Every seat of an allocation written out as runs, for exports; empty for unplaced rows
+export function formatSeatList(alloc: Allocation): string {
+  if (alloc.error || !alloc.startSeat || !alloc.endSeat) return '';
+  return formatRuns(alloc.seats && alloc.seats.length > 0 ? seatRuns(alloc.seats) : [[alloc.startSeat, alloc.endSeat]]);
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from '@jest/globals';
+import { Section } from '../types';
+import { parseSectionImport, applySectionImport } from './sections';
+
+const current: Section[] = [
+  { id: 4, branch: 'CSE', section: '1', students: 60 },
+  { id: 7, branch: 'ECE', section: '1', students: 55 },
+];
+
+describe('applySectionImport', () => {
+  const rows = parseSectionImport('Branch,Section,Students\nece,1,50\nME,1,45\n', current);
+
+  it('keeps the ids of matching sections when replacing, and never reuses a dropped id', () => {
+    expect(applySectionImport(current, rows, 'replace')).toEqual([
+      { id: 7, branch: 'ece', section: '1', students: 50 },
+      { id: 8, branch: 'ME', section: '1', students: 45 },
+    ]);
+  });
+
+  it('updates matching sections and appends new ones when merging', () => {
+    expect(applySectionImport(current, rows, 'merge')).toEqual([
+      { id: 4, branch: 'CSE', section: '1', students: 60 },
+      { id: 7, branch: 'ECE', section: '1', students: 50 },
+      { id: 8, branch: 'ME', section: '1', students: 45 },
+    ]);
+  });
+});
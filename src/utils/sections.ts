@@ -0,0 +1,100 @@
+import { Section } from '../types';
+import { parseCsvRows, findColumn, CsvRow } from './csv';
+
+// One row of a section import as shown in the preview; rows with errors are not imported
+export interface SectionImportRow {
+  line: number;
+  branch: string;
+  section: string;
+  students: number | null;
+  paper: string;
+  errors: string[];
+  existing: boolean; // the branch and section is already in the current list
+}
+
+const sectionKey = (branch: string, section: string) => `${branch}-${section}`.toLowerCase();
+
+// Rows copied from a spreadsheet arrive tab-separated; anything else is read as CSV
+function splitRows(text: string): CsvRow[] {
+  if (!text.includes('\t')) return parseCsvRows(text);
+  return text.split(/\r\n|\r|\n/)
+    .map((line, idx) => ({ cells: line.split('\t').map(c => c.trim()), line: idx + 1, quoted: false }))
+    .filter(row => row.cells.some(c => c !== ''));
+}
+
+// Parse sections from CSV text or a pasted spreadsheet block. With a header row the columns are found
+// by name (Branch, Section, Students, optional Subject/Paper); without one they are taken in that order.
+// Every row is returned with its problems so the preview can show what will and will not be imported.
+export function parseSectionImport(text: string, current: Section[]): SectionImportRow[] {
+  const rows = splitRows(text);
+  if (rows.length === 0) return [];
+  const headers = rows[0].cells;
+  const named = {
+    branch: findColumn(headers, ['branch']),
+    section: findColumn(headers, ['section']),
+    students: findColumn(headers, ['students', 'strength', 'count', 'total']),
+    paper: findColumn(headers, ['subject', 'paper', 'paper code', 'subject code']),
+  };
+  const hasHeader = named.branch !== -1 && named.section !== -1;
+  const cols = hasHeader ? named : { branch: 0, section: 1, students: 2, paper: 3 };
+
+  const existing = new Set(current.map(s => sectionKey(s.branch, s.section)));
+  const firstLine: Record<string, number> = {};
+  return rows.slice(hasHeader ? 1 : 0).map(({ cells, line }) => {
+    const cell = (col: number) => (col === -1 ? '' : cells[col] || '');
+    const row: SectionImportRow = {
+      line,
+      branch: cell(cols.branch),
+      section: cell(cols.section),
+      students: null,
+      paper: cell(cols.paper),
+      errors: [],
+      existing: false,
+    };
+    const count = cell(cols.students);
+    if (!row.branch) row.errors.push('Branch is blank.');
+    if (!row.section) row.errors.push('Section is blank.');
+    if (!count) row.errors.push('Students is blank.');
+    else if (!/^\d+$/.test(count) || parseInt(count) === 0) row.errors.push(`Students "${count}" is not a positive whole number.`);
+    else row.students = parseInt(count);
+    if (row.branch && row.section) {
+      const key = sectionKey(row.branch, row.section);
+      if (firstLine[key] !== undefined) {
+        row.errors.push(`Duplicate of line ${firstLine[key]}.`);
+      } else {
+        firstLine[key] = line;
+      }
+      row.existing = existing.has(key);
+    }
+    return row;
+  });
+}
+
+// Apply the importable rows: 'replace' swaps the whole list, 'merge' updates sections already in the
+// list (matched on branch and section, ignoring case) and appends the rest. Either way a matched section
+// keeps its id and new sections get ids never used in the current list, so timetable sessions keep
+// pointing at the right sections (and report the ones that were dropped).
+export function applySectionImport(current: Section[], rows: SectionImportRow[], mode: 'replace' | 'merge'): Section[] {
+  const valid = rows.filter(r => r.errors.length === 0);
+  let nextId = Math.max(0, ...current.map(s => s.id)) + 1;
+  const currentIds: Record<string, number> = {};
+  current.forEach(s => { currentIds[sectionKey(s.branch, s.section)] = s.id; });
+  const toSection = (r: SectionImportRow): Section => ({
+    id: currentIds[sectionKey(r.branch, r.section)] ?? nextId++,
+    branch: r.branch,
+    section: r.section,
+    students: r.students!,
+    ...(r.paper ? { paper: r.paper } : {}),
+  });
+  if (mode === 'replace') return valid.map(toSection);
+
+  const updates: Record<string, SectionImportRow> = {};
+  valid.forEach(r => { updates[sectionKey(r.branch, r.section)] = r; });
+  const merged = current.map(s => {
+    const update = updates[sectionKey(s.branch, s.section)];
+    if (!update) return s;
+    delete updates[sectionKey(s.branch, s.section)];
+    return { ...s, students: update.students!, ...(update.paper ? { paper: update.paper } : {}) };
+  });
+  return [...merged, ...valid.filter(r => updates[sectionKey(r.branch, r.section)]).map(toSection)];
+}
@@ -0,0 +1,76 @@
+import { Section, RoomBlock, ExamSession, SessionResult, AllocationSettings } from '../types';
+import { runAllocation, computeStats } from './allocators';
+
+export const DEFAULT_SLOTS = ['Morning', 'Afternoon', 'Evening'];
+
+export const slotKey = (session: ExamSession) => `${session.date}|${session.slot}`;
+
+// Date first, then slot in the usual day order (custom slot names after the defaults, alphabetically)
+export function compareSlots(a: ExamSession, b: ExamSession): number {
+  if (a.date !== b.date) return a.date.localeCompare(b.date);
+  const ai = DEFAULT_SLOTS.indexOf(a.slot);
+  const bi = DEFAULT_SLOTS.indexOf(b.slot);
+  if (ai !== bi) return (ai === -1 ? DEFAULT_SLOTS.length : ai) - (bi === -1 ? DEFAULT_SLOTS.length : bi);
+  return a.slot.localeCompare(b.slot);
+}
+
+export const sessionLabel = (session: ExamSession) => `${session.date || 'No date'} ${session.slot || 'No slot'}`;
+
+// A section can only sit one paper at a time, so it may not appear twice within the same date and slot
+export function validateTimetable(sessions: ExamSession[], sections: Section[]): string[] {
+  const errors: string[] = [];
+  const sectionById: Record<number, Section> = {};
+  sections.forEach(s => { sectionById[s.id] = s; });
+  const seenInSlot: Record<string, Record<number, number>> = {};
+
+  sessions.forEach((session, idx) => {
+    const label = `Session ${idx + 1} (${sessionLabel(session)})`;
+    if (!session.date || !session.slot) errors.push(`${label}: date and slot are required.`);
+    if (session.sectionIds.length === 0) errors.push(`${label}: no sections selected.`);
+    const key = slotKey(session);
+    if (!seenInSlot[key]) seenInSlot[key] = {};
+    for (const id of session.sectionIds) {
+      const section = sectionById[id];
+      if (!section) {
+        errors.push(`${label}: refers to a section that no longer exists.`);
+        continue;
+      }
+      const other = seenInSlot[key][id];
+      if (other !== undefined) {
+        errors.push(`${section.branch}-${section.section} appears in both session ${other + 1} and session ${idx + 1} on ${sessionLabel(session)}.`);
+      } else {
+        seenInSlot[key][id] = idx;
+      }
+    }
+  });
+  return errors;
+}
+
+// Allocate every session against the same rooms. Rooms are reused freely across slots; sessions that
+// share a slot are run one after another, each without the rooms taken by earlier sessions in that slot.
+// `onProgress` is called after each session with the number done so far.
+export function runTimetable(
+  sessions: ExamSession[],
+  sections: Section[],
+  roomBlocks: RoomBlock[],
+  settings: AllocationSettings,
+  onProgress?: (done: number, total: number) => void
+): SessionResult[] {
+  const takenInSlot: Record<string, Set<string>> = {};
+  return sessions.map((session, idx) => {
+    const key = slotKey(session);
+    if (!takenInSlot[key]) takenInSlot[key] = new Set();
+    const taken = takenInSlot[key];
+    const freeBlocks = roomBlocks.map(block => ({ ...block, rooms: block.rooms.filter(r => !taken.has(r.no)) }));
+    const ids = new Set(session.sectionIds);
+    const sessionSections = sections.filter(s => ids.has(s.id));
+    const outcome = runAllocation(sessionSections, freeBlocks, settings);
+    outcome.result.forEach(a => { if (!a.error) taken.add(a.roomNo); });
+    if (onProgress) onProgress(idx + 1, sessions.length);
+    return {
+      sessionId: session.id,
+      allocation: outcome.result,
+      stats: computeStats(sessionSections, outcome, roomBlocks),
+    };
+  });
+}
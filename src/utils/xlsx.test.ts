@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+import { describe, it, expect } from '@jest/globals';
+import { buildXlsx, Sheet } from './xlsx';
+
+interface Entry {
+  name: string;
+  crc: number;
+  method: number;
+  content: string;
+}
+
+// Walk the archive from its end record through the central directory to each local entry
+function readZip(bytes: Uint8Array): Entry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let pos = view.getUint32(end + 16, true);
+  expect(pos + centralSize).toBe(end);
+
+  const entries: Entry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 24, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const offset = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 18, true)).toBe(size);
+    expect(view.getUint32(offset + 22, true)).toBe(size);
+    const start = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({
+      name,
+      crc,
+      method: view.getUint16(pos + 10, true),
+      content: decoder.decode(bytes.subarray(start, start + size)),
+    });
+    pos += 46 + nameLength;
+  }
+  return entries;
+}
+
+const fileOf = (entries: Entry[], name: string) => entries.find(e => e.name === name)?.content ?? '';
+
+describe('buildXlsx', () => {
+  const seats: Sheet = { name: 'Seats', rows: [['Room', 'Seats'], ['A101', 30]] };
+
+  it('packs the workbook parts into a stored ZIP archive', () => {
+    const entries = readZip(buildXlsx([seats, { name: 'Rooms', rows: [] }]));
+    expect(entries.map(e => e.name)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+    expect(entries.every(e => e.method === 0)).toBe(true);
+    expect(fileOf(entries, '[Content_Types].xml')).toContain('<Override PartName="/xl/worksheets/sheet2.xml"');
+    expect(fileOf(entries, 'xl/_rels/workbook.xml.rels')).toContain('Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"');
+  });
+
+  it('writes the CRC-32 of each entry', () => {
+    // Reference values from an independent ZIP reader
+    const entries = readZip(buildXlsx([seats]));
+    expect(entries.find(e => e.name === '_rels/.rels')?.crc).toBe(0x8bebda98);
+    expect(entries.find(e => e.name === 'xl/worksheets/sheet1.xml')?.crc).toBe(0x696cf5b9);
+  });
+
+  it('writes numbers as values and text as escaped inline strings', () => {
+    const row = ['A & <B>', 12, null, '', 'x'];
+    const padded = [...new Array(26).fill(null), 'far'];
+    const xml = fileOf(readZip(buildXlsx([{ name: 'S', rows: [row, padded] }])), 'xl/worksheets/sheet1.xml');
+    expect(xml).toContain(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">A &amp; &lt;B&gt;</t></is></c>'
+      + '<c r="B1"><v>12</v></c><c r="E1" t="inlineStr"><is><t xml:space="preserve">x</t></is></c></row>'
+    );
+    expect(xml).toContain('<row r="2"><c r="AA2" t="inlineStr"><is><t xml:space="preserve">far</t></is></c></row>');
+  });
+
+  it('cleans sheet names that spreadsheets reject', () => {
+    const workbook = fileOf(readZip(buildXlsx([
+      { name: 'Block A/B: "Day 1"', rows: [] },
+      { name: 'x'.repeat(40), rows: [] },
+      { name: '', rows: [] },
+    ])), 'xl/workbook.xml');
+    expect(workbook).toContain('<sheet name="Block A B  &quot;Day 1&quot;" sheetId="1" r:id="rId1"/>');
+    expect(workbook).toContain(`<sheet name="${'x'.repeat(31)}" sheetId="2" r:id="rId2"/>`);
+    expect(workbook).toContain('<sheet name="Sheet" sheetId="3" r:id="rId3"/>');
+  });
+});